@@ -0,0 +1,149 @@
+import type { AvatarConfig } from '../../shared/avatar'
+import { normalizeHexColor } from '../../shared/avatarRecord'
+
+// Color slots in the editor: curated palettes plus free-form HSV/hex picking
+
+export type ColorSlot = 'head' | 'hair' | 'eyes' | 'top' | 'bottom'
+
+export interface ColorSlotInfo {
+  key: 'headColor' | 'hairColor' | 'eyeColor' | 'topColor' | 'bottomColor'
+  label: string
+  palette: string[]
+}
+
+export const COLOR_SLOTS: Record<ColorSlot, ColorSlotInfo> = {
+  head: {
+    key: 'headColor',
+    label: 'Skin Color',
+    palette: ['#ffccaa', '#ffe4c4', '#f5d0c5', '#deb887', '#d2a679', '#a67c52', '#8d5524', '#a8e6cf', '#ffd3b6', '#c5b4e3']
+  },
+  hair: {
+    key: 'hairColor',
+    label: 'Hair Color',
+    palette: ['#4a3728', '#2c1810', '#8b7355', '#d4a574', '#ffd700', '#ff6b6b', '#4ecdc4', '#9b59b6', '#3498db', '#1a1a2e']
+  },
+  eyes: {
+    key: 'eyeColor',
+    label: 'Eye Color',
+    palette: ['#333333', '#4a4a4a', '#2d5a27', '#4a90d9', '#8b4513', '#9b59b6']
+  },
+  top: {
+    key: 'topColor',
+    label: 'Top Color',
+    palette: ['#4299e1', '#e53e3e', '#48bb78', '#ecc94b', '#ed8936', '#ed64a6', '#9f7aea', '#38b2ac', '#ffffff', '#1a1a2e']
+  },
+  bottom: {
+    key: 'bottomColor',
+    label: 'Bottom Color',
+    palette: ['#2d3748', '#2b4c7e', '#4a4a4a', '#5c4033', '#c2b280', '#e53e3e', '#9f7aea', '#ffffff']
+  }
+}
+
+export function getSlotColor(config: AvatarConfig, slot: ColorSlot): string {
+  return config[COLOR_SLOTS[slot].key]
+}
+
+export function isPaletteColor(slot: ColorSlot, hex: string): boolean {
+  return COLOR_SLOTS[slot].palette.includes(hex.toLowerCase())
+}
+
+export interface HSV {
+  h: number // 0-360
+  s: number // 0-100
+  v: number // 0-100
+}
+
+export function hexToHsv(hex: string): HSV {
+  const rgb = hexToRgb(hex)
+  const r = rgb.r / 255
+  const g = rgb.g / 255
+  const b = rgb.b / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const d = max - min
+
+  let h = 0
+  if (d !== 0) {
+    if (max === r) h = ((g - b) / d) % 6
+    else if (max === g) h = (b - r) / d + 2
+    else h = (r - g) / d + 4
+    h *= 60
+    if (h < 0) h += 360
+  }
+
+  return {
+    h: Math.round(h),
+    s: Math.round(max === 0 ? 0 : (d / max) * 100),
+    v: Math.round(max * 100)
+  }
+}
+
+export function hsvToHex({ h, s, v }: HSV): string {
+  const sat = s / 100
+  const val = v / 100
+  const c = val * sat
+  const x = c * (1 - Math.abs(((h / 60) % 2) - 1))
+  const m = val - c
+
+  let rgb: [number, number, number]
+  if (h < 60) rgb = [c, x, 0]
+  else if (h < 120) rgb = [x, c, 0]
+  else if (h < 180) rgb = [0, c, x]
+  else if (h < 240) rgb = [0, x, c]
+  else if (h < 300) rgb = [x, 0, c]
+  else rgb = [c, 0, x]
+
+  return '#' + rgb.map(channel => Math.round((channel + m) * 255).toString(16).padStart(2, '0')).join('')
+}
+
+function hexToRgb(hex: string): { r: number; g: number; b: number } {
+  const value = parseInt((normalizeHexColor(hex) ?? '#000000').slice(1), 16)
+  return { r: (value >> 16) & 255, g: (value >> 8) & 255, b: value & 255 }
+}
+
+// CIE Lab so "nearest" matches what looks closest, not raw RGB distance
+function hexToLab(hex: string): [number, number, number] {
+  const { r, g, b } = hexToRgb(hex)
+  const linear = [r, g, b].map(channel => {
+    const c = channel / 255
+    return c > 0.04045 ? Math.pow((c + 0.055) / 1.055, 2.4) : c / 12.92
+  })
+  const x = (linear[0] * 0.4124 + linear[1] * 0.3576 + linear[2] * 0.1805) / 0.95047
+  const y = linear[0] * 0.2126 + linear[1] * 0.7152 + linear[2] * 0.0722
+  const z = (linear[0] * 0.0193 + linear[1] * 0.1192 + linear[2] * 0.9505) / 1.08883
+  const f = (t: number) => t > 0.008856 ? Math.cbrt(t) : 7.787 * t + 16 / 116
+  return [116 * f(y) - 16, 500 * (f(x) - f(y)), 200 * (f(y) - f(z))]
+}
+
+export function nearestPaletteColor(slot: ColorSlot, hex: string): string {
+  const target = hexToLab(hex)
+  let best = COLOR_SLOTS[slot].palette[0]
+  let bestDist = Infinity
+  COLOR_SLOTS[slot].palette.forEach(color => {
+    const lab = hexToLab(color)
+    const dist = (lab[0] - target[0]) ** 2 + (lab[1] - target[1]) ** 2 + (lab[2] - target[2]) ** 2
+    if (dist < bestDist) {
+      bestDist = dist
+      best = color
+    }
+  })
+  return best
+}
+
+// Recently picked custom colors, shared across slots and kept between visits
+const RECENT_COLORS_KEY = 'bskatar_recent_colors'
+const MAX_RECENT_COLORS = 8
+
+export function getRecentColors(): string[] {
+  try {
+    const saved = JSON.parse(localStorage.getItem(RECENT_COLORS_KEY) || '[]')
+    return Array.isArray(saved) ? saved.filter(color => normalizeHexColor(color) === color) : []
+  } catch {
+    return []
+  }
+}
+
+export function addRecentColor(hex: string) {
+  const recent = [hex, ...getRecentColors().filter(color => color !== hex)].slice(0, MAX_RECENT_COLORS)
+  localStorage.setItem(RECENT_COLORS_KEY, JSON.stringify(recent))
+}
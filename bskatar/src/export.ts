@@ -0,0 +1,57 @@
+import * as THREE from 'three'
+import { GLTFExporter } from 'three/addons/exporters/GLTFExporter.js'
+import type { AvatarConfig } from '../../shared/avatar'
+import { canvasToBlob, renderAvatarSnapshot } from './snapshot'
+
+// Export the avatar as files for other engines and our asset pipeline
+
+// PNG headshot sizes offered in the export menu
+export const PNG_EXPORT_SIZES = [128, 256, 512, 1024]
+
+// Bluesky recommends square profile pictures of at least 1000px
+export const PROFILE_PICTURE_SIZE = 1000
+
+// Profile pictures are re-encoded as JPEG, so they get a solid background
+export const PROFILE_PICTURE_BACKGROUND = '#e8f4f8'
+
+// app.bsky.actor.profile#avatar maxSize
+export const PROFILE_PICTURE_MAX_BYTES = 1_000_000
+
+export async function exportAvatarGLB(avatar: THREE.Object3D): Promise<Blob> {
+  // Export a clone at rest so the idle sway doesn't end up in the file
+  const clone = avatar.clone()
+  clone.rotation.set(0, 0, 0)
+  clone.name = 'bskatar'
+
+  const exporter = new GLTFExporter()
+  const result = await exporter.parseAsync(clone, { binary: true })
+  return new Blob([result as ArrayBuffer], { type: 'model/gltf-binary' })
+}
+
+export function exportAvatarPNG(config: AvatarConfig, size: number): Promise<Blob> {
+  return canvasToBlob(renderAvatarSnapshot(config, { size }))
+}
+
+export function renderProfilePicture(config: AvatarConfig): HTMLCanvasElement {
+  return renderAvatarSnapshot(config, {
+    size: PROFILE_PICTURE_SIZE,
+    background: PROFILE_PICTURE_BACKGROUND,
+    framing: 'profile'
+  })
+}
+
+// PNG when it fits Bluesky's avatar blob limit, JPEG otherwise
+export async function encodeProfilePicture(canvas: HTMLCanvasElement): Promise<Blob> {
+  const png = await canvasToBlob(canvas)
+  if (png.size <= PROFILE_PICTURE_MAX_BYTES) return png
+  return canvasToBlob(canvas, 'image/jpeg', 0.9)
+}
+
+export function downloadBlob(blob: Blob, filename: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = filename
+  link.click()
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
@@ -1,6 +1,47 @@
 import * as THREE from 'three'
 import { OrbitControls } from 'three/addons/controls/OrbitControls.js'
-import { BskyAgent } from '@atproto/api'
+import { AtUri, BskyAgent, type BlobRef, ComAtprotoRepoGetRecord, ComAtprotoRepoPutRecord } from '@atproto/api'
+import { avatarConfigsEqual, createAvatar, DEFAULT_AVATAR_CONFIG, disposeAvatar, type AvatarConfig } from '../../shared/avatar'
+import {
+  AVATAR_COLLECTION,
+  AVATAR_HISTORY_COLLECTION,
+  AVATAR_PRESET_COLLECTION,
+  AVATAR_RKEY,
+  AvatarValidationError,
+  createAvatarHistoryRecord,
+  createAvatarPresetRecord,
+  createAvatarRecord,
+  formatValidationIssues,
+  getActivePresetKey,
+  normalizeHexColor,
+  readAvatarPreset,
+  validateAvatarRecord,
+  type AvatarPreset
+} from '../../shared/avatarRecord'
+import { canvasToBlob, renderAvatarSnapshot } from './snapshot'
+import {
+  addRecentColor,
+  COLOR_SLOTS,
+  getRecentColors,
+  getSlotColor,
+  hexToHsv,
+  hsvToHex,
+  isPaletteColor,
+  nearestPaletteColor,
+  type ColorSlot,
+  type HSV
+} from './colors'
+import { createFaceAnimator, EXPRESSION_PRESETS, type Expression, type FaceAnimator } from '../../shared/avatarExpression'
+import { defaultAvatarForDid, generateAvatar, randomAvatarSeed, type AvatarTrait } from '../../shared/avatarGenerator'
+import { canRedo, canUndo, endUndoCoalescing, recordUndo, redo, undo } from './undo'
+import {
+  downloadBlob,
+  exportAvatarGLB,
+  exportAvatarPNG,
+  encodeProfilePicture,
+  PNG_EXPORT_SIZES,
+  renderProfilePicture
+} from './export'
 import './style.css'
 
 // Bluesky agent for auth and storage
@@ -11,31 +52,7 @@ let isLoggedIn = false
 let userHandle = ''
 
 // Avatar state - this is what we store in Bluesky
-interface AvatarConfig {
-  headShape: 'round' | 'oval' | 'square'
-  headColor: string
-  hairStyle: 'none' | 'short' | 'spiky' | 'bob' | 'ponytail'
-  hairColor: string
-  eyeStyle: 'dots' | 'wide' | 'sleepy' | 'sparkle'
-  eyeColor: string
-  eyebrowStyle: 'none' | 'normal' | 'angry' | 'worried' | 'thick'
-  noseStyle: 'none' | 'small' | 'round' | 'pointed'
-  mouthStyle: 'smile' | 'neutral' | 'open' | 'cat' | 'surprised'
-  hasBlush: boolean
-}
-
-let currentConfig: AvatarConfig = {
-  headShape: 'round',
-  headColor: '#ffccaa',
-  hairStyle: 'short',
-  hairColor: '#4a3728',
-  eyeStyle: 'dots',
-  eyeColor: '#333333',
-  eyebrowStyle: 'normal',
-  noseStyle: 'small',
-  mouthStyle: 'smile',
-  hasBlush: true
-}
+let currentConfig: AvatarConfig = { ...DEFAULT_AVATAR_CONFIG }
 
 // Scene setup
 const scene = new THREE.Scene()
@@ -73,476 +90,40 @@ scene.add(fillLight)
 const avatarGroup = new THREE.Group()
 scene.add(avatarGroup)
 
-// Create material helper - using Lambert for low-poly look
-function createMaterial(color: string | number, options?: { transparent?: boolean; opacity?: number }): THREE.MeshLambertMaterial {
-  return new THREE.MeshLambertMaterial({
-    color: new THREE.Color(color),
-    flatShading: true,
-    transparent: options?.transparent,
-    opacity: options?.opacity
-  })
-}
-
-// Create low-poly head shapes
-function createHead(shape: AvatarConfig['headShape'], color: string): THREE.Mesh {
-  let geometry: THREE.BufferGeometry
-
-  switch (shape) {
-    case 'round':
-      geometry = new THREE.IcosahedronGeometry(1, 1)
-      break
-    case 'oval':
-      geometry = new THREE.IcosahedronGeometry(1, 1)
-      geometry.scale(0.85, 1.1, 0.9)
-      break
-    case 'square':
-      geometry = new THREE.BoxGeometry(1.6, 1.8, 1.5, 2, 2, 2)
-      const positions = geometry.attributes.position
-      for (let i = 0; i < positions.count; i++) {
-        const x = positions.getX(i)
-        const y = positions.getY(i)
-        const z = positions.getZ(i)
-        const length = Math.sqrt(x*x + y*y + z*z)
-        const factor = 0.15
-        positions.setXYZ(
-          i,
-          x + (x/length - x) * factor,
-          y + (y/length - y) * factor,
-          z + (z/length - z) * factor
-        )
-      }
-      break
-    default:
-      geometry = new THREE.IcosahedronGeometry(1, 1)
-  }
-
-  return new THREE.Mesh(geometry, createMaterial(color))
-}
-
-// Create hair
-function createHair(style: AvatarConfig['hairStyle'], color: string): THREE.Group {
-  const hairGroup = new THREE.Group()
-  if (style === 'none') return hairGroup
-
-  const hairMaterial = createMaterial(color)
-
-  switch (style) {
-    case 'short': {
-      // Simple cap of hair on top
-      const capGeom = new THREE.SphereGeometry(1.05, 8, 6, 0, Math.PI * 2, 0, Math.PI * 0.45)
-      const cap = new THREE.Mesh(capGeom, hairMaterial)
-      cap.position.y = 0.15
-      hairGroup.add(cap)
-
-      // Add some chunky bangs
-      const bangGeom = new THREE.BoxGeometry(0.8, 0.15, 0.3, 2, 1, 1)
-      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
-      bangs.position.set(0, 0.75, 0.7)
-      bangs.rotation.x = 0.3
-      hairGroup.add(bangs)
-      break
-    }
-
-    case 'spiky': {
-      // Multiple spikes pointing up
-      const spikeGeom = new THREE.ConeGeometry(0.15, 0.5, 4)
-      const spikePositions = [
-        { x: 0, y: 1.1, z: 0, rotX: 0, rotZ: 0 },
-        { x: 0.3, y: 1.0, z: 0.1, rotX: 0.2, rotZ: -0.3 },
-        { x: -0.3, y: 1.0, z: 0.1, rotX: 0.2, rotZ: 0.3 },
-        { x: 0.15, y: 1.05, z: -0.2, rotX: -0.2, rotZ: -0.15 },
-        { x: -0.15, y: 1.05, z: -0.2, rotX: -0.2, rotZ: 0.15 },
-        { x: 0, y: 0.95, z: 0.35, rotX: 0.5, rotZ: 0 },
-        { x: 0.4, y: 0.85, z: 0.2, rotX: 0.3, rotZ: -0.5 },
-        { x: -0.4, y: 0.85, z: 0.2, rotX: 0.3, rotZ: 0.5 },
-      ]
-      spikePositions.forEach(pos => {
-        const spike = new THREE.Mesh(spikeGeom, hairMaterial)
-        spike.position.set(pos.x, pos.y, pos.z)
-        spike.rotation.x = pos.rotX
-        spike.rotation.z = pos.rotZ
-        hairGroup.add(spike)
-      })
-      break
-    }
-
-    case 'bob': {
-      // Rounded bob haircut
-      const bobGeom = new THREE.SphereGeometry(1.1, 8, 6)
-      bobGeom.scale(1, 0.9, 0.95)
-      const bob = new THREE.Mesh(bobGeom, hairMaterial)
-      bob.position.y = 0.2
-
-      // Clip the bottom half using a box
-      const clipGeom = new THREE.BoxGeometry(3, 1.5, 3)
-      const clipMesh = new THREE.Mesh(clipGeom)
-      clipMesh.position.y = -1.1
-
-      hairGroup.add(bob)
-
-      // Side pieces
-      const sideGeom = new THREE.CapsuleGeometry(0.25, 0.4, 4, 8)
-      const leftSide = new THREE.Mesh(sideGeom, hairMaterial)
-      leftSide.position.set(-0.85, -0.1, 0.2)
-      leftSide.rotation.z = 0.15
-      const rightSide = new THREE.Mesh(sideGeom, hairMaterial)
-      rightSide.position.set(0.85, -0.1, 0.2)
-      rightSide.rotation.z = -0.15
-      hairGroup.add(leftSide, rightSide)
-
-      // Bangs
-      const bangGeom = new THREE.BoxGeometry(0.9, 0.2, 0.25, 2, 1, 1)
-      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
-      bangs.position.set(0, 0.7, 0.75)
-      bangs.rotation.x = 0.4
-      hairGroup.add(bangs)
-      break
-    }
-
-    case 'ponytail': {
-      // Top bun/cap
-      const capGeom = new THREE.SphereGeometry(1.05, 8, 6, 0, Math.PI * 2, 0, Math.PI * 0.5)
-      const cap = new THREE.Mesh(capGeom, hairMaterial)
-      cap.position.y = 0.1
-      hairGroup.add(cap)
-
-      // Ponytail at back
-      const tailGeom = new THREE.CapsuleGeometry(0.2, 0.7, 4, 8)
-      const tail = new THREE.Mesh(tailGeom, hairMaterial)
-      tail.position.set(0, 0.3, -0.9)
-      tail.rotation.x = 0.6
-      hairGroup.add(tail)
-
-      // Hair tie
-      const tieGeom = new THREE.TorusGeometry(0.15, 0.05, 6, 8)
-      const tieMaterial = createMaterial('#ff6b6b')
-      const tie = new THREE.Mesh(tieGeom, tieMaterial)
-      tie.position.set(0, 0.6, -0.85)
-      tie.rotation.x = Math.PI / 2 + 0.3
-      hairGroup.add(tie)
-
-      // Bangs
-      const bangGeom = new THREE.BoxGeometry(0.7, 0.15, 0.25, 2, 1, 1)
-      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
-      bangs.position.set(0, 0.75, 0.7)
-      bangs.rotation.x = 0.3
-      hairGroup.add(bangs)
-      break
-    }
-  }
-
-  return hairGroup
-}
-
-// Create eyebrows
-function createEyebrows(style: AvatarConfig['eyebrowStyle'], color: string): THREE.Group {
-  const browGroup = new THREE.Group()
-  if (style === 'none') return browGroup
-
-  const browMaterial = createMaterial(color)
-  const eyeSpacing = 0.35
-  const browY = 0.4
-  const browZ = 0.82
-
-  switch (style) {
-    case 'normal': {
-      const browGeom = new THREE.BoxGeometry(0.2, 0.04, 0.05, 1, 1, 1)
-      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
-      leftBrow.position.set(-eyeSpacing, browY, browZ)
-      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
-      rightBrow.position.set(eyeSpacing, browY, browZ)
-      browGroup.add(leftBrow, rightBrow)
-      break
-    }
-
-    case 'angry': {
-      const browGeom = new THREE.BoxGeometry(0.22, 0.05, 0.05, 1, 1, 1)
-      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
-      leftBrow.position.set(-eyeSpacing, browY, browZ)
-      leftBrow.rotation.z = 0.4 // Angled down toward center
-      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
-      rightBrow.position.set(eyeSpacing, browY, browZ)
-      rightBrow.rotation.z = -0.4
-      browGroup.add(leftBrow, rightBrow)
-      break
-    }
-
-    case 'worried': {
-      const browGeom = new THREE.BoxGeometry(0.22, 0.05, 0.05, 1, 1, 1)
-      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
-      leftBrow.position.set(-eyeSpacing, browY, browZ)
-      leftBrow.rotation.z = -0.35 // Angled up toward center
-      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
-      rightBrow.position.set(eyeSpacing, browY, browZ)
-      rightBrow.rotation.z = 0.35
-      browGroup.add(leftBrow, rightBrow)
-      break
-    }
-
-    case 'thick': {
-      const browGeom = new THREE.BoxGeometry(0.25, 0.08, 0.06, 1, 1, 1)
-      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
-      leftBrow.position.set(-eyeSpacing, browY, browZ)
-      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
-      rightBrow.position.set(eyeSpacing, browY, browZ)
-      browGroup.add(leftBrow, rightBrow)
-      break
-    }
-  }
-
-  return browGroup
-}
-
-// Create nose
-function createNose(style: AvatarConfig['noseStyle'], headColor: string): THREE.Group {
-  const noseGroup = new THREE.Group()
-  if (style === 'none') return noseGroup
-
-  // Nose is slightly darker than head
-  const noseColor = new THREE.Color(headColor).multiplyScalar(0.9)
-  const noseMaterial = createMaterial(noseColor)
-
-  const noseY = -0.05
-  const noseZ = 0.95
-
-  switch (style) {
-    case 'small': {
-      const noseGeom = new THREE.SphereGeometry(0.06, 6, 4)
-      const nose = new THREE.Mesh(noseGeom, noseMaterial)
-      nose.position.set(0, noseY, noseZ)
-      noseGroup.add(nose)
-      break
-    }
-
-    case 'round': {
-      const noseGeom = new THREE.SphereGeometry(0.1, 6, 4)
-      noseGeom.scale(1, 0.8, 0.7)
-      const nose = new THREE.Mesh(noseGeom, noseMaterial)
-      nose.position.set(0, noseY, noseZ)
-      noseGroup.add(nose)
-      break
-    }
-
-    case 'pointed': {
-      const noseGeom = new THREE.ConeGeometry(0.06, 0.15, 4)
-      noseGeom.rotateX(-Math.PI / 2)
-      const nose = new THREE.Mesh(noseGeom, noseMaterial)
-      nose.position.set(0, noseY, noseZ + 0.05)
-      noseGroup.add(nose)
-      break
-    }
-  }
-
-  return noseGroup
-}
-
-// Create eyes
-function createEyes(style: AvatarConfig['eyeStyle'], color: string): THREE.Group {
-  const eyeGroup = new THREE.Group()
-  const eyeMaterial = createMaterial(color)
-  const whiteMaterial = createMaterial(0xffffff)
-
-  const eyeSpacing = 0.35
-  const eyeY = 0.15
-  const eyeZ = 0.85
-
-  switch (style) {
-    case 'dots': {
-      const dotGeom = new THREE.SphereGeometry(0.08, 8, 6)
-      const leftDot = new THREE.Mesh(dotGeom, eyeMaterial)
-      leftDot.position.set(-eyeSpacing, eyeY, eyeZ)
-      const rightDot = new THREE.Mesh(dotGeom, eyeMaterial)
-      rightDot.position.set(eyeSpacing, eyeY, eyeZ)
-      eyeGroup.add(leftDot, rightDot)
-      break
-    }
-
-    case 'wide': {
-      const wideWhiteGeom = new THREE.SphereGeometry(0.15, 8, 6)
-      const widePupilGeom = new THREE.SphereGeometry(0.08, 8, 6)
-
-      const leftWhite = new THREE.Mesh(wideWhiteGeom, whiteMaterial)
-      leftWhite.position.set(-eyeSpacing, eyeY, eyeZ - 0.05)
-      const leftPupil = new THREE.Mesh(widePupilGeom, eyeMaterial)
-      leftPupil.position.set(-eyeSpacing, eyeY, eyeZ + 0.08)
-
-      const rightWhite = new THREE.Mesh(wideWhiteGeom, whiteMaterial)
-      rightWhite.position.set(eyeSpacing, eyeY, eyeZ - 0.05)
-      const rightPupil = new THREE.Mesh(widePupilGeom, eyeMaterial)
-      rightPupil.position.set(eyeSpacing, eyeY, eyeZ + 0.08)
-
-      eyeGroup.add(leftWhite, leftPupil, rightWhite, rightPupil)
-      break
-    }
-
-    case 'sleepy': {
-      const sleepyGeom = new THREE.CapsuleGeometry(0.04, 0.12, 4, 8)
-      sleepyGeom.rotateZ(Math.PI / 2)
-      const leftSleepy = new THREE.Mesh(sleepyGeom, eyeMaterial)
-      leftSleepy.position.set(-eyeSpacing, eyeY, eyeZ)
-      leftSleepy.scale.y = 0.5
-      const rightSleepy = new THREE.Mesh(sleepyGeom, eyeMaterial)
-      rightSleepy.position.set(eyeSpacing, eyeY, eyeZ)
-      rightSleepy.scale.y = 0.5
-      eyeGroup.add(leftSleepy, rightSleepy)
-      break
-    }
-
-    case 'sparkle': {
-      // Big shiny anime eyes
-      const whiteGeom = new THREE.SphereGeometry(0.16, 8, 6)
-      const pupilGeom = new THREE.SphereGeometry(0.1, 8, 6)
-      const shineGeom = new THREE.SphereGeometry(0.04, 6, 4)
-      const shineMaterial = createMaterial(0xffffff)
-
-      // Left eye
-      const leftWhite = new THREE.Mesh(whiteGeom, whiteMaterial)
-      leftWhite.position.set(-eyeSpacing, eyeY, eyeZ - 0.05)
-      const leftPupil = new THREE.Mesh(pupilGeom, eyeMaterial)
-      leftPupil.position.set(-eyeSpacing, eyeY, eyeZ + 0.06)
-      const leftShine = new THREE.Mesh(shineGeom, shineMaterial)
-      leftShine.position.set(-eyeSpacing + 0.05, eyeY + 0.05, eyeZ + 0.12)
-
-      // Right eye
-      const rightWhite = new THREE.Mesh(whiteGeom, whiteMaterial)
-      rightWhite.position.set(eyeSpacing, eyeY, eyeZ - 0.05)
-      const rightPupil = new THREE.Mesh(pupilGeom, eyeMaterial)
-      rightPupil.position.set(eyeSpacing, eyeY, eyeZ + 0.06)
-      const rightShine = new THREE.Mesh(shineGeom, shineMaterial)
-      rightShine.position.set(eyeSpacing + 0.05, eyeY + 0.05, eyeZ + 0.12)
-
-      eyeGroup.add(leftWhite, leftPupil, leftShine, rightWhite, rightPupil, rightShine)
-      break
-    }
-  }
-
-  return eyeGroup
-}
-
-// Create mouth
-function createMouth(style: AvatarConfig['mouthStyle']): THREE.Group {
-  const mouthGroup = new THREE.Group()
-  const mouthMaterial = createMaterial(0x333333)
-  const tongueMaterial = createMaterial(0xff6b6b)
-
-  const mouthY = -0.25
-  const mouthZ = 0.9
-
-  switch (style) {
-    case 'smile': {
-      const smileGeom = new THREE.TorusGeometry(0.15, 0.025, 8, 12, Math.PI)
-      smileGeom.rotateX(Math.PI)
-      smileGeom.rotateZ(Math.PI)
-      const smile = new THREE.Mesh(smileGeom, mouthMaterial)
-      smile.position.set(0, mouthY, mouthZ)
-      mouthGroup.add(smile)
-      break
-    }
-
-    case 'neutral': {
-      const lineGeom = new THREE.CapsuleGeometry(0.02, 0.2, 4, 8)
-      lineGeom.rotateZ(Math.PI / 2)
-      const line = new THREE.Mesh(lineGeom, mouthMaterial)
-      line.position.set(0, mouthY, mouthZ)
-      mouthGroup.add(line)
-      break
-    }
-
-    case 'open': {
-      const openGeom = new THREE.SphereGeometry(0.12, 8, 6)
-      openGeom.scale(1.3, 0.8, 0.5)
-      const openMouth = new THREE.Mesh(openGeom, mouthMaterial)
-      openMouth.position.set(0, mouthY, mouthZ)
-
-      const tongueGeom = new THREE.SphereGeometry(0.06, 6, 4)
-      tongueGeom.scale(1, 0.6, 0.5)
-      const tongue = new THREE.Mesh(tongueGeom, tongueMaterial)
-      tongue.position.set(0, mouthY - 0.05, mouthZ + 0.02)
-
-      mouthGroup.add(openMouth, tongue)
-      break
-    }
-
-    case 'cat': {
-      // Cat-like :3 mouth
-      const leftGeom = new THREE.TorusGeometry(0.08, 0.02, 6, 8, Math.PI)
-      leftGeom.rotateX(Math.PI)
-      leftGeom.rotateZ(Math.PI * 0.75)
-      const left = new THREE.Mesh(leftGeom, mouthMaterial)
-      left.position.set(-0.06, mouthY - 0.02, mouthZ)
-
-      const rightGeom = new THREE.TorusGeometry(0.08, 0.02, 6, 8, Math.PI)
-      rightGeom.rotateX(Math.PI)
-      rightGeom.rotateZ(Math.PI * 0.25)
-      const right = new THREE.Mesh(rightGeom, mouthMaterial)
-      right.position.set(0.06, mouthY - 0.02, mouthZ)
-
-      mouthGroup.add(left, right)
-      break
-    }
-
-    case 'surprised': {
-      // O shaped surprised mouth
-      const oGeom = new THREE.TorusGeometry(0.1, 0.03, 8, 12)
-      const o = new THREE.Mesh(oGeom, mouthMaterial)
-      o.position.set(0, mouthY, mouthZ)
-      mouthGroup.add(o)
-      break
-    }
-  }
-
-  return mouthGroup
-}
-
-// Create blush marks
-function createBlush(): THREE.Group {
-  const blushGroup = new THREE.Group()
-  const blushMaterial = createMaterial(0xffaaaa, { transparent: true, opacity: 0.6 })
-
-  const blushGeom = new THREE.CircleGeometry(0.1, 6)
-
-  const leftBlush = new THREE.Mesh(blushGeom, blushMaterial)
-  leftBlush.position.set(-0.55, -0.05, 0.75)
-  leftBlush.rotation.y = -0.4
-
-  const rightBlush = new THREE.Mesh(blushGeom, blushMaterial)
-  rightBlush.position.set(0.55, -0.05, 0.75)
-  rightBlush.rotation.y = 0.4
+// Head close-up, or the whole avatar with its outfit
+type ViewMode = 'head' | 'body'
+let viewMode: ViewMode = 'head'
 
-  blushGroup.add(leftBlush, rightBlush)
-  return blushGroup
-}
+// Previews expressions on the current avatar - never saved
+let faceAnimator: FaceAnimator | null = null
 
 // Build the complete avatar
 function buildAvatar(config: AvatarConfig) {
-  // Clear existing
+  // Clear existing - slider drags rebuild many times a second, so free the
+  // old one's GPU buffers too
   while (avatarGroup.children.length > 0) {
-    avatarGroup.remove(avatarGroup.children[0])
+    disposeAvatar(avatarGroup.children[0])
   }
 
-  // Add parts in order (back to front)
-  const head = createHead(config.headShape, config.headColor)
-  avatarGroup.add(head)
-
-  const hair = createHair(config.hairStyle, config.hairColor)
-  avatarGroup.add(hair)
-
-  const nose = createNose(config.noseStyle, config.headColor)
-  avatarGroup.add(nose)
-
-  const eyes = createEyes(config.eyeStyle, config.eyeColor)
-  avatarGroup.add(eyes)
+  const avatar = createAvatar(config, { body: viewMode === 'body' })
+  faceAnimator = createFaceAnimator(avatar, { idleBlink: true })
+  avatarGroup.add(avatar)
+}
 
-  const eyebrows = createEyebrows(config.eyebrowStyle, config.hairColor)
-  avatarGroup.add(eyebrows)
+function setViewMode(mode: ViewMode) {
+  if (mode === viewMode) return
+  viewMode = mode
 
-  const mouth = createMouth(config.mouthStyle)
-  avatarGroup.add(mouth)
+  // Frame the feet too - the body hangs ~2.5 head radii below the head
+  const focusY = mode === 'body' ? -0.8 : 0
+  controls.target.set(0, focusY, 0)
+  camera.position.set(0, focusY, mode === 'body' ? 7.5 : 5)
+  controls.maxDistance = mode === 'body' ? 11 : 8
 
-  if (config.hasBlush) {
-    const blush = createBlush()
-    avatarGroup.add(blush)
-  }
+  document.querySelectorAll('[data-view]').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.view === mode)
+  })
+  buildAvatar(currentConfig)
 }
 
 // Build initial avatar
@@ -556,6 +137,26 @@ function createUI() {
     <h2>bskatar</h2>
     <p class="subtitle">your bluesky avatar</p>
 
+    <div class="edit-toolbar">
+      <button id="undo-btn" title="Undo (Ctrl+Z)" disabled>↶ Undo</button>
+      <button id="redo-btn" title="Redo (Ctrl+Shift+Z)" disabled>↷ Redo</button>
+      <span class="save-state" id="save-state"></span>
+    </div>
+
+    <div class="button-group view-toggle">
+      <button data-view="head" class="active">Head</button>
+      <button data-view="body">Full body</button>
+    </div>
+
+    <div class="control-group remix-section">
+      <label>Remix</label>
+      <div class="remix-row">
+        <button id="remix-btn" class="primary-btn" title="Re-roll everything that isn't locked">🎲 Remix</button>
+        <input type="text" id="remix-seed" placeholder="Seed (optional)" spellcheck="false">
+      </div>
+      <button id="did-look-btn" class="did-look-btn" style="display: none;">Start from my account's look</button>
+    </div>
+
     <div class="auth-section">
       <div class="login-form">
         <input type="text" id="handle-input" placeholder="Handle (e.g. user.bsky.social)">
@@ -565,8 +166,17 @@ function createUI() {
       </div>
     </div>
 
+    <div class="control-group preset-section" id="preset-section" style="display: none;">
+      <label>Outfits</label>
+      <div class="preset-list" id="preset-list"></div>
+      <div class="preset-save">
+        <input type="text" id="preset-name" placeholder="Name this look (e.g. party)">
+        <button id="preset-save-btn">Save</button>
+      </div>
+    </div>
+
     <div class="control-group">
-      <label>Head Shape</label>
+      <label>Head Shape ${lockButton('headShape')}</label>
       <div class="button-group">
         <button data-head="round" class="active">Round</button>
         <button data-head="oval">Oval</button>
@@ -574,24 +184,10 @@ function createUI() {
       </div>
     </div>
 
-    <div class="control-group">
-      <label>Skin Color</label>
-      <div class="color-options" data-type="head">
-        <button class="color-btn active" data-color="#ffccaa" style="background: #ffccaa"></button>
-        <button class="color-btn" data-color="#ffe4c4" style="background: #ffe4c4"></button>
-        <button class="color-btn" data-color="#f5d0c5" style="background: #f5d0c5"></button>
-        <button class="color-btn" data-color="#deb887" style="background: #deb887"></button>
-        <button class="color-btn" data-color="#d2a679" style="background: #d2a679"></button>
-        <button class="color-btn" data-color="#a67c52" style="background: #a67c52"></button>
-        <button class="color-btn" data-color="#8d5524" style="background: #8d5524"></button>
-        <button class="color-btn" data-color="#a8e6cf" style="background: #a8e6cf"></button>
-        <button class="color-btn" data-color="#ffd3b6" style="background: #ffd3b6"></button>
-        <button class="color-btn" data-color="#c5b4e3" style="background: #c5b4e3"></button>
-      </div>
-    </div>
+    ${colorControl('head')}
 
     <div class="control-group">
-      <label>Hair Style</label>
+      <label>Hair Style ${lockButton('hairStyle')}</label>
       <div class="button-group">
         <button data-hair="none">None</button>
         <button data-hair="short" class="active">Short</button>
@@ -601,24 +197,10 @@ function createUI() {
       </div>
     </div>
 
-    <div class="control-group">
-      <label>Hair Color</label>
-      <div class="color-options" data-type="hair">
-        <button class="color-btn active" data-color="#4a3728" style="background: #4a3728"></button>
-        <button class="color-btn" data-color="#2c1810" style="background: #2c1810"></button>
-        <button class="color-btn" data-color="#8b7355" style="background: #8b7355"></button>
-        <button class="color-btn" data-color="#d4a574" style="background: #d4a574"></button>
-        <button class="color-btn" data-color="#ffd700" style="background: #ffd700"></button>
-        <button class="color-btn" data-color="#ff6b6b" style="background: #ff6b6b"></button>
-        <button class="color-btn" data-color="#4ecdc4" style="background: #4ecdc4"></button>
-        <button class="color-btn" data-color="#9b59b6" style="background: #9b59b6"></button>
-        <button class="color-btn" data-color="#3498db" style="background: #3498db"></button>
-        <button class="color-btn" data-color="#1a1a2e" style="background: #1a1a2e"></button>
-      </div>
-    </div>
+    ${colorControl('hair')}
 
     <div class="control-group">
-      <label>Eyebrows</label>
+      <label>Eyebrows ${lockButton('eyebrowStyle')}</label>
       <div class="button-group">
         <button data-brow="none">None</button>
         <button data-brow="normal" class="active">Normal</button>
@@ -629,7 +211,7 @@ function createUI() {
     </div>
 
     <div class="control-group">
-      <label>Eyes</label>
+      <label>Eyes ${lockButton('eyeStyle')}</label>
       <div class="button-group">
         <button data-eyes="dots" class="active">Dots</button>
         <button data-eyes="wide">Wide</button>
@@ -638,20 +220,10 @@ function createUI() {
       </div>
     </div>
 
-    <div class="control-group">
-      <label>Eye Color</label>
-      <div class="color-options" data-type="eyes">
-        <button class="color-btn active" data-color="#333333" style="background: #333333"></button>
-        <button class="color-btn" data-color="#4a4a4a" style="background: #4a4a4a"></button>
-        <button class="color-btn" data-color="#2d5a27" style="background: #2d5a27"></button>
-        <button class="color-btn" data-color="#4a90d9" style="background: #4a90d9"></button>
-        <button class="color-btn" data-color="#8b4513" style="background: #8b4513"></button>
-        <button class="color-btn" data-color="#9b59b6" style="background: #9b59b6"></button>
-      </div>
-    </div>
+    ${colorControl('eyes')}
 
     <div class="control-group">
-      <label>Nose</label>
+      <label>Nose ${lockButton('noseStyle')}</label>
       <div class="button-group">
         <button data-nose="none">None</button>
         <button data-nose="small" class="active">Small</button>
@@ -661,7 +233,7 @@ function createUI() {
     </div>
 
     <div class="control-group">
-      <label>Mouth</label>
+      <label>Mouth ${lockButton('mouthStyle')}</label>
       <div class="button-group">
         <button data-mouth="smile" class="active">Smile</button>
         <button data-mouth="neutral">Neutral</button>
@@ -675,9 +247,74 @@ function createUI() {
       <label>
         <input type="checkbox" id="blush-toggle" checked>
         Blush
+        ${lockButton('hasBlush')}
       </label>
     </div>
 
+    <div class="control-group">
+      <label>Try an expression</label>
+      <div class="button-group">
+        ${EXPRESSION_PRESETS.map(expression => `<button data-expression="${expression}">${expression[0].toUpperCase() + expression.slice(1)}</button>`).join('')}
+      </div>
+    </div>
+
+    <div class="control-group">
+      <label>Outfit ${lockButton('outfitStyle')}</label>
+      <div class="button-group">
+        <button data-outfit="tshirt" class="active">T-shirt</button>
+        <button data-outfit="hoodie">Hoodie</button>
+        <button data-outfit="dress">Dress</button>
+        <button data-outfit="overalls">Overalls</button>
+      </div>
+    </div>
+
+    ${colorControl('top')}
+    ${colorControl('bottom')}
+
+    <div class="control-group">
+      <label>Hat ${lockButton('hatStyle')}</label>
+      <div class="button-group">
+        <button data-hat="none" class="active">None</button>
+        <button data-hat="cap">Cap</button>
+        <button data-hat="beanie">Beanie</button>
+        <button data-hat="tophat">Top hat</button>
+        <button data-hat="crown">Crown</button>
+      </div>
+    </div>
+
+    <div class="control-group">
+      <label>Glasses ${lockButton('glassesStyle')}</label>
+      <div class="button-group">
+        <button data-glasses="none" class="active">None</button>
+        <button data-glasses="round">Round</button>
+        <button data-glasses="square">Square</button>
+        <button data-glasses="shades">Shades</button>
+      </div>
+    </div>
+
+    <div class="control-group">
+      <label>Backpack ${lockButton('backpackStyle')}</label>
+      <div class="button-group">
+        <button data-back="none" class="active">None</button>
+        <button data-back="backpack">Backpack</button>
+        <button data-back="jetpack">Jetpack</button>
+      </div>
+    </div>
+
+    <div class="control-group export-section">
+      <label>Export</label>
+      <div class="export-row">
+        <button id="export-glb">GLB model</button>
+        <button id="export-profile">Profile pic</button>
+      </div>
+      <div class="export-row">
+        <select id="export-size">
+          ${PNG_EXPORT_SIZES.map(size => `<option value="${size}"${size === 512 ? ' selected' : ''}>${size}×${size}</option>`).join('')}
+        </select>
+        <button id="export-png">PNG headshot</button>
+      </div>
+    </div>
+
     <div class="config-output">
       <label>Avatar Data (JSON)</label>
       <pre id="config-json"></pre>
@@ -685,30 +322,11 @@ function createUI() {
   `
   document.body.appendChild(ui)
 
-  // Generic handler factory
-  const setupButtonGroup = (selector: string, configKey: keyof AvatarConfig) => {
-    ui.querySelectorAll(selector).forEach(btn => {
-      btn.addEventListener('click', (e) => {
-        const target = e.target as HTMLElement
-        ui.querySelectorAll(selector).forEach(b => b.classList.remove('active'))
-        target.classList.add('active')
-        const value = target.dataset[selector.replace('[data-', '').replace(']', '')]
-        ;(currentConfig as any)[configKey] = value
-        buildAvatar(currentConfig)
-        updateConfigDisplay()
-      })
-    })
-  }
-
   // Head shape
   ui.querySelectorAll('[data-head]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-head]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.headShape = target.dataset.head as AvatarConfig['headShape']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ headShape: target.dataset.head as AvatarConfig['headShape'] })
     })
   })
 
@@ -716,11 +334,7 @@ function createUI() {
   ui.querySelectorAll('[data-hair]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-hair]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.hairStyle = target.dataset.hair as AvatarConfig['hairStyle']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ hairStyle: target.dataset.hair as AvatarConfig['hairStyle'] })
     })
   })
 
@@ -728,11 +342,7 @@ function createUI() {
   ui.querySelectorAll('[data-brow]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-brow]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.eyebrowStyle = target.dataset.brow as AvatarConfig['eyebrowStyle']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ eyebrowStyle: target.dataset.brow as AvatarConfig['eyebrowStyle'] })
     })
   })
 
@@ -740,11 +350,7 @@ function createUI() {
   ui.querySelectorAll('[data-eyes]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-eyes]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.eyeStyle = target.dataset.eyes as AvatarConfig['eyeStyle']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ eyeStyle: target.dataset.eyes as AvatarConfig['eyeStyle'] })
     })
   })
 
@@ -752,11 +358,7 @@ function createUI() {
   ui.querySelectorAll('[data-nose]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-nose]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.noseStyle = target.dataset.nose as AvatarConfig['noseStyle']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ noseStyle: target.dataset.nose as AvatarConfig['noseStyle'] })
     })
   })
 
@@ -764,55 +366,184 @@ function createUI() {
   ui.querySelectorAll('[data-mouth]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-mouth]').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.mouthStyle = target.dataset.mouth as AvatarConfig['mouthStyle']
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ mouthStyle: target.dataset.mouth as AvatarConfig['mouthStyle'] })
     })
   })
 
-  // Head color
-  ui.querySelectorAll('[data-type="head"] .color-btn').forEach(btn => {
+  // Outfit - shown on the body, so switch to the full-body view
+  ui.querySelectorAll('[data-outfit]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-type="head"] .color-btn').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.headColor = target.dataset.color!
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      setViewMode('body')
+      applyConfig({ outfitStyle: target.dataset.outfit as AvatarConfig['outfitStyle'] })
     })
   })
 
-  // Hair color
-  ui.querySelectorAll('[data-type="hair"] .color-btn').forEach(btn => {
+  // Hat
+  ui.querySelectorAll('[data-hat]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-type="hair"] .color-btn').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.hairColor = target.dataset.color!
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ hatStyle: target.dataset.hat as AvatarConfig['hatStyle'] })
     })
   })
 
-  // Eye color
-  ui.querySelectorAll('[data-type="eyes"] .color-btn').forEach(btn => {
+  // Glasses
+  ui.querySelectorAll('[data-glasses]').forEach(btn => {
     btn.addEventListener('click', (e) => {
       const target = e.target as HTMLElement
-      ui.querySelectorAll('[data-type="eyes"] .color-btn').forEach(b => b.classList.remove('active'))
-      target.classList.add('active')
-      currentConfig.eyeColor = target.dataset.color!
-      buildAvatar(currentConfig)
-      updateConfigDisplay()
+      applyConfig({ glassesStyle: target.dataset.glasses as AvatarConfig['glassesStyle'] })
+    })
+  })
+
+  // Backpack
+  ui.querySelectorAll('[data-back]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      const target = e.target as HTMLElement
+      setViewMode('body')
+      applyConfig({ backpackStyle: target.dataset.back as AvatarConfig['backpackStyle'] })
+    })
+  })
+
+  // Expression preview - plays on the avatar, the saved face stays neutral
+  ui.querySelectorAll('[data-expression]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      faceAnimator?.play((e.target as HTMLElement).dataset.expression as Expression)
+    })
+  })
+
+  // View mode
+  ui.querySelectorAll('[data-view]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      setViewMode((e.target as HTMLElement).dataset.view as ViewMode)
+    })
+  })
+
+  // Colors - palette swatches, custom HSV/hex picker and recent colors
+  ;(Object.keys(COLOR_SLOTS) as ColorSlot[]).forEach(slot => {
+    const options = ui.querySelector(`[data-type="${slot}"]`)!
+    const picker = ui.querySelector(`[data-picker="${slot}"]`) as HTMLElement
+
+    options.querySelectorAll('.color-btn[data-color]').forEach(btn => {
+      btn.addEventListener('click', (e) => {
+        setSlotColor(slot, (e.target as HTMLElement).dataset.color!)
+      })
+    })
+
+    options.querySelector('.custom-color-btn')!.addEventListener('click', () => {
+      picker.style.display = picker.style.display === 'none' ? 'block' : 'none'
+      updateColorControls(slot)
+    })
+
+    picker.querySelectorAll('[data-hsv]').forEach(input => {
+      // Live preview while dragging, remember the color once released
+      input.addEventListener('input', () => setSlotColor(slot, hsvToHex(readPickerHsv(picker)), true))
+      input.addEventListener('change', () => {
+        endUndoCoalescing()
+        addRecentColor(getSlotColor(currentConfig, slot))
+        updateColorControls(slot, false)
+      })
+    })
+
+    const hexInput = picker.querySelector('.hex-input') as HTMLInputElement
+    hexInput.addEventListener('change', () => {
+      const hex = normalizeHexColor(hexInput.value.startsWith('#') ? hexInput.value : '#' + hexInput.value)
+      if (!hex) {
+        showNotification('Use a hex color like #ffccaa')
+        updateColorControls(slot)
+        return
+      }
+      addRecentColor(hex)
+      setSlotColor(slot, hex)
+    })
+
+    picker.querySelector('.snap-btn')!.addEventListener('click', () => {
+      setSlotColor(slot, nearestPaletteColor(slot, getSlotColor(currentConfig, slot)))
+    })
+
+    picker.querySelector('.recent-colors')!.addEventListener('click', (e) => {
+      const color = (e.target as HTMLElement).dataset.recent
+      if (color) setSlotColor(slot, color)
+    })
+  })
+
+  // Remix - re-roll unlocked traits; a typed seed always gives the same look
+  document.getElementById('remix-btn')!.addEventListener('click', () => {
+    const seedInput = document.getElementById('remix-seed') as HTMLInputElement
+    const seed = seedInput.value.trim() || randomAvatarSeed()
+    seedInput.placeholder = `Seed (last: ${seed})`
+    applyConfig(generateAvatar({ seed, locked: [...lockedTraits], base: currentConfig }))
+  })
+
+  // The look bskyplace shows for this account until a bskatar is saved
+  document.getElementById('did-look-btn')!.addEventListener('click', () => {
+    const did = agent.session?.did
+    if (did) applyConfig(defaultAvatarForDid(did))
+  })
+
+  ui.querySelectorAll('[data-lock]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.preventDefault()
+      const trait = (btn as HTMLElement).dataset.lock as AvatarTrait
+      if (lockedTraits.has(trait)) lockedTraits.delete(trait)
+      else lockedTraits.add(trait)
+      btn.classList.toggle('locked', lockedTraits.has(trait))
+      btn.textContent = lockedTraits.has(trait) ? '🔒' : '🔓'
     })
   })
 
+  // Undo / redo
+  document.getElementById('undo-btn')!.addEventListener('click', undoConfigChange)
+  document.getElementById('redo-btn')!.addEventListener('click', redoConfigChange)
+
   // Blush toggle
   document.getElementById('blush-toggle')!.addEventListener('change', (e) => {
-    currentConfig.hasBlush = (e.target as HTMLInputElement).checked
-    buildAvatar(currentConfig)
-    updateConfigDisplay()
+    applyConfig({ hasBlush: (e.target as HTMLInputElement).checked })
+  })
+
+  // Export menu
+  document.getElementById('export-glb')!.addEventListener('click', async () => {
+    try {
+      downloadBlob(await exportAvatarGLB(avatarGroup), 'bskatar.glb')
+    } catch (err: any) {
+      console.error('GLB export error:', err)
+      showNotification('Error: ' + (err.message || 'Export failed'))
+    }
+  })
+
+  document.getElementById('export-png')!.addEventListener('click', async () => {
+    const size = Number((document.getElementById('export-size') as HTMLSelectElement).value)
+    try {
+      downloadBlob(await exportAvatarPNG(currentConfig, size), `bskatar-${size}.png`)
+    } catch (err: any) {
+      console.error('PNG export error:', err)
+      showNotification('Error: ' + (err.message || 'Export failed'))
+    }
+  })
+
+  document.getElementById('export-profile')!.addEventListener('click', async () => {
+    try {
+      const blob = await encodeProfilePicture(renderProfilePicture(currentConfig))
+      downloadBlob(blob, blob.type === 'image/png' ? 'bskatar-profile.png' : 'bskatar-profile.jpg')
+    } catch (err: any) {
+      console.error('Profile picture export error:', err)
+      showNotification('Error: ' + (err.message || 'Export failed'))
+    }
+  })
+
+  // Save current look as a named preset
+  document.getElementById('preset-save-btn')!.addEventListener('click', async () => {
+    const input = document.getElementById('preset-name') as HTMLInputElement
+    const name = input.value.trim()
+    if (!name) {
+      showNotification('Give the look a name first')
+      return
+    }
+    const result = await saveAvatarPreset(name)
+    if (result.success) {
+      input.value = ''
+    } else {
+      showNotification('Error: ' + result.error)
+    }
   })
 
   // Login button
@@ -843,6 +574,165 @@ function createUI() {
   })
 
   updateConfigDisplay()
+  updateUIFromConfig()
+  updateEditState()
+}
+
+// Editor changes - everything the user changes goes through applyConfig so
+// it can be undone
+interface ApplyConfigOptions {
+  // Changes with the same key in quick succession undo as one step
+  coalesceKey?: string
+  syncSliders?: boolean
+}
+
+function applyConfig(change: Partial<AvatarConfig>, options: ApplyConfigOptions = {}) {
+  const next = { ...currentConfig, ...change }
+  if (avatarConfigsEqual(next, currentConfig)) return
+  recordUndo(currentConfig, options.coalesceKey ?? null)
+  showConfig(next, options.syncSliders)
+}
+
+function showConfig(config: AvatarConfig, syncSliders = true) {
+  currentConfig = config
+  buildAvatar(currentConfig)
+  updateConfigDisplay()
+  updateUIFromConfig(syncSliders)
+  updateEditState()
+}
+
+function undoConfigChange() {
+  const previous = undo(currentConfig)
+  if (previous) showConfig(previous)
+}
+
+function redoConfigChange() {
+  const next = redo(currentConfig)
+  if (next) showConfig(next)
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS). Text fields keep their own undo.
+window.addEventListener('keydown', (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+  const target = e.target as HTMLElement
+  if (target.tagName === 'INPUT' && (target as HTMLInputElement).type !== 'range' && (target as HTMLInputElement).type !== 'checkbox') return
+
+  const key = e.key.toLowerCase()
+  if (key === 'z' && !e.shiftKey) {
+    e.preventDefault()
+    undoConfigChange()
+  } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+    e.preventDefault()
+    redoConfigChange()
+  }
+})
+
+// Undo/redo buttons and whether the editor differs from the saved record
+function updateEditState() {
+  const undoBtn = document.getElementById('undo-btn') as HTMLButtonElement | null
+  const redoBtn = document.getElementById('redo-btn') as HTMLButtonElement | null
+  if (undoBtn) undoBtn.disabled = !canUndo()
+  if (redoBtn) redoBtn.disabled = !canRedo()
+
+  const state = document.getElementById('save-state')
+  if (!state) return
+  const unsaved = hasUnsavedChanges()
+  state.classList.toggle('unsaved', unsaved)
+  if (!isLoggedIn || savedConfig === undefined) {
+    state.textContent = ''
+  } else if (savedConfig === null) {
+    state.textContent = '● Not saved yet'
+  } else {
+    state.textContent = unsaved ? '● Unsaved changes' : '✓ Saved'
+  }
+}
+
+function hasUnsavedChanges(): boolean {
+  return isLoggedIn && savedConfig !== undefined && (savedConfig === null || !avatarConfigsEqual(currentConfig, savedConfig))
+}
+
+window.addEventListener('beforeunload', (e) => {
+  if (hasUnsavedChanges()) e.preventDefault()
+})
+
+// Traits the remix button keeps
+const lockedTraits = new Set<AvatarTrait>()
+
+function lockButton(trait: AvatarTrait): string {
+  return `<button class="lock-btn" data-lock="${trait}" title="Keep when remixing">🔓</button>`
+}
+
+// Swatches for a color slot plus the custom picker (hidden until opened)
+function colorControl(slot: ColorSlot): string {
+  const { key, label, palette } = COLOR_SLOTS[slot]
+  return `
+    <div class="control-group">
+      <label>${label} ${lockButton(key)}</label>
+      <div class="color-options" data-type="${slot}">
+        ${palette.map(color => `<button class="color-btn" data-color="${color}" style="background: ${color}"></button>`).join('')}
+        <button class="color-btn custom-color-btn" title="Custom color"></button>
+      </div>
+      <div class="color-picker" data-picker="${slot}" style="display: none;">
+        <div class="picker-row"><span>H</span><input type="range" min="0" max="359" data-hsv="h"></div>
+        <div class="picker-row"><span>S</span><input type="range" min="0" max="100" data-hsv="s"></div>
+        <div class="picker-row"><span>V</span><input type="range" min="0" max="100" data-hsv="v"></div>
+        <div class="picker-row">
+          <input type="text" class="hex-input" maxlength="7" spellcheck="false">
+          <button class="snap-btn">Snap to palette</button>
+        </div>
+        <div class="recent-colors"></div>
+      </div>
+    </div>
+  `
+}
+
+function readPickerHsv(picker: HTMLElement): HSV {
+  const value = (channel: string) => Number((picker.querySelector(`[data-hsv="${channel}"]`) as HTMLInputElement).value)
+  return { h: value('h'), s: value('s'), v: value('v') }
+}
+
+// A slider drag is one undo step, and leaves the sliders alone so hue
+// survives grey/black colors
+function setSlotColor(slot: ColorSlot, hex: string, dragging = false) {
+  applyConfig({ [COLOR_SLOTS[slot].key]: hex }, dragging ? { coalesceKey: `color-${slot}`, syncSliders: false } : {})
+}
+
+// Reflect the slot's color in the UI - custom values light up the custom swatch
+function updateColorControls(slot: ColorSlot, syncSliders = true) {
+  const ui = document.querySelector('.ui-panel')
+  if (!ui) return
+
+  const hex = getSlotColor(currentConfig, slot)
+  const isCustom = !isPaletteColor(slot, hex)
+
+  ui.querySelectorAll(`[data-type="${slot}"] .color-btn[data-color]`).forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.color === hex)
+  })
+  const customBtn = ui.querySelector(`[data-type="${slot}"] .custom-color-btn`) as HTMLElement
+  customBtn.classList.toggle('active', isCustom)
+  customBtn.style.background = isCustom ? hex : ''
+
+  const picker = ui.querySelector(`[data-picker="${slot}"]`) as HTMLElement
+  if (syncSliders) {
+    const hsv = hexToHsv(hex)
+    ;(['h', 's', 'v'] as const).forEach(channel => {
+      (picker.querySelector(`[data-hsv="${channel}"]`) as HTMLInputElement).value = String(hsv[channel])
+    })
+  }
+
+  // Saturation/value tracks show where the slider would take the color
+  const { h, s, v } = readPickerHsv(picker)
+  ;(picker.querySelector('[data-hsv="s"]') as HTMLElement).style.background =
+    `linear-gradient(90deg, ${hsvToHex({ h, s: 0, v })}, ${hsvToHex({ h, s: 100, v })})`
+  ;(picker.querySelector('[data-hsv="v"]') as HTMLElement).style.background =
+    `linear-gradient(90deg, #000000, ${hsvToHex({ h, s, v: 100 })})`
+
+  const hexInput = picker.querySelector('.hex-input') as HTMLInputElement
+  if (document.activeElement !== hexInput) hexInput.value = hex
+
+  picker.querySelector('.recent-colors')!.innerHTML = getRecentColors()
+    .map(color => `<button class="recent-color" data-recent="${color}" style="background: ${color}" title="${color}"></button>`)
+    .join('')
 }
 
 function updateConfigDisplay() {
@@ -861,6 +751,8 @@ async function login(handle: string, password: string): Promise<{ success: boole
     updateAuthUI()
     // Try to load existing avatar
     await loadAvatarFromBluesky()
+    await refreshHistoryStrip()
+    await refreshPresets()
     return { success: true }
   } catch (err: any) {
     console.error('Login error:', err)
@@ -871,54 +763,407 @@ async function login(handle: string, password: string): Promise<{ success: boole
 function logout() {
   isLoggedIn = false
   userHandle = ''
+  baseRecordCid = undefined
+  savedConfig = undefined
+  loadedNewerRecord = false
+  presets = []
+  activePresetKey = null
   updateAuthUI()
+  updateEditState()
 }
 
 // Avatar Storage Functions
-const AVATAR_COLLECTION = 'xyz.bskatar.avatar'
-const AVATAR_RKEY = 'self'
 
-async function saveAvatarToBluesky(): Promise<{ success: boolean; error?: string }> {
+// Set when the stored record came from a newer schema version than we know
+let loadedNewerRecord = false
+
+// CID of the stored record currentConfig is based on - null when there is no
+// record yet, undefined when we haven't read the repo. Saves swap against it
+// so edits from another device are never silently overwritten.
+let baseRecordCid: string | null | undefined = undefined
+
+// The look stored in that record, for the unsaved-changes indicator
+let savedConfig: AvatarConfig | null | undefined = undefined
+
+type SaveErrorKind = 'auth' | 'validation' | 'conflict' | 'rate-limit' | 'network' | 'unknown'
+
+// Turn a save failure into something we can explain to the user
+function classifySaveError(err: any): { kind: SaveErrorKind; message: string } {
+  if (err instanceof AvatarValidationError) {
+    return { kind: 'validation', message: err.message }
+  }
+  if (err instanceof ComAtprotoRepoPutRecord.InvalidSwapError) {
+    return { kind: 'conflict', message: 'Your avatar changed on another device' }
+  }
+  if (err?.error === 'ExpiredToken' || err?.error === 'InvalidToken' || err?.status === 401) {
+    return { kind: 'auth', message: 'Your session expired - log in again' }
+  }
+  if (err?.error === 'InvalidRequest' || err?.status === 400) {
+    return { kind: 'validation', message: err.message || 'Bluesky rejected the avatar record' }
+  }
+  if (err?.status === 429) {
+    return { kind: 'rate-limit', message: 'Too many saves - wait a moment and try again' }
+  }
+  if (err instanceof TypeError || err?.status === 1) {
+    // fetch() failures and XRPC's "Unknown" status
+    return { kind: 'network', message: "Couldn't reach Bluesky - check your connection" }
+  }
+  return { kind: 'unknown', message: err?.message || 'Save failed' }
+}
+
+// Read the stored record as it is right now
+async function fetchStoredAvatar(repo: string): Promise<{ cid: string; value: unknown } | null> {
+  try {
+    const response = await agent.com.atproto.repo.getRecord({
+      repo,
+      collection: AVATAR_COLLECTION,
+      rkey: AVATAR_RKEY
+    })
+    return { cid: response.data.cid!, value: response.data.value }
+  } catch (err: any) {
+    if (err instanceof ComAtprotoRepoGetRecord.RecordNotFoundError || err.message?.includes('not found')) {
+      return null
+    }
+    throw err
+  }
+}
+
+// Thumbnail stored with the record - the avatar is still saved if this fails
+const THUMBNAIL_SIZE = 128
+
+async function uploadAvatarThumbnail(config: AvatarConfig): Promise<BlobRef | null> {
+  try {
+    const image = await canvasToBlob(renderAvatarSnapshot(config, { size: THUMBNAIL_SIZE }))
+    const response = await agent.uploadBlob(image, { encoding: 'image/png' })
+    return response.data.blob
+  } catch (err) {
+    console.warn('Could not upload avatar thumbnail:', err)
+    return null
+  }
+}
+
+// Write config over the record with CID swapCid (null = must not exist yet)
+async function writeAvatarRecord(repo: string, config: AvatarConfig, swapCid: string | null, activePreset: string | null = null) {
+  // Rejects configs that don't match the lexicon
+  const record = createAvatarRecord(config, activePreset)
+
+  // Rendered headshot for clients that don't run Three.js
+  const thumbnail = await uploadAvatarThumbnail(config)
+  if (thumbnail) record.thumbnail = thumbnail
+
+  const response = await agent.com.atproto.repo.putRecord({
+    repo,
+    collection: AVATAR_COLLECTION,
+    rkey: AVATAR_RKEY,
+    record,
+    swapRecord: swapCid
+  })
+
+  baseRecordCid = response.data.cid
+  savedConfig = { ...config }
+  loadedNewerRecord = false
+  activePresetKey = activePreset
+  renderPresetList()
+  updateEditState()
+
+  // Keep the previous looks around - a failed history write doesn't fail the save
+  try {
+    await agent.com.atproto.repo.createRecord({
+      repo,
+      collection: AVATAR_HISTORY_COLLECTION,
+      record: createAvatarHistoryRecord(record)
+    })
+    await refreshHistoryStrip()
+  } catch (err) {
+    console.warn('Could not write avatar history:', err)
+  }
+}
+
+// activePreset: rkey of the preset this look comes from - a plain save of an
+// edited look clears it so other clients don't show the preset instead
+async function saveAvatarToBluesky(activePreset: string | null = null): Promise<{ success: boolean; error?: string }> {
   if (!isLoggedIn) {
     return { success: false, error: 'Not logged in' }
   }
 
   try {
-    // Check if record exists, then update or create
     const repo = agent.session?.did
     if (!repo) throw new Error('No session')
 
+    // Saving would downgrade the record and drop anything this build doesn't know
+    if (loadedNewerRecord && !confirm('Your saved avatar was made with a newer version of bskatar. Saving here will drop features this version does not support. Save anyway?')) {
+      return { success: false, error: 'Save cancelled' }
+    }
+
+    // Compare the stored record with the one we started from
+    const stored = await fetchStoredAvatar(repo)
+    const storedCid = stored?.cid ?? null
+    if (baseRecordCid !== undefined && storedCid !== baseRecordCid) {
+      showSaveConflict(repo, stored)
+      return { success: false, error: 'Your avatar changed on another device' }
+    }
+
     try {
-      // Try to update existing record
+      await writeAvatarRecord(repo, currentConfig, storedCid, activePreset)
+    } catch (err) {
+      // Lost a race with another device between the read and the write
+      if (err instanceof ComAtprotoRepoPutRecord.InvalidSwapError) {
+        showSaveConflict(repo, await fetchStoredAvatar(repo))
+      }
+      throw err
+    }
+
+    showNotification('Avatar saved to Bluesky!')
+    return { success: true }
+  } catch (err: any) {
+    const { kind, message } = classifySaveError(err)
+    console.error(`Save error (${kind}):`, err)
+    return { success: false, error: message }
+  }
+}
+
+// Conflict dialog - the stored avatar no longer matches the one we loaded
+function showSaveConflict(repo: string, stored: { cid: string; value: unknown } | null) {
+  document.querySelector('.modal')?.remove()
+
+  const theirs = stored ? validateAvatarRecord(stored.value).config : null
+  const mine = { ...currentConfig }
+
+  const dialog = document.createElement('div')
+  dialog.className = 'modal'
+  dialog.innerHTML = `
+    <div class="modal-panel">
+      <h3>Avatar changed on another device</h3>
+      <p>${theirs ? 'The avatar saved in your repo was updated since you loaded it.' : 'The avatar saved in your repo was deleted since you loaded it.'}</p>
+      <div class="modal-buttons">
+        <button id="conflict-keep" class="primary-btn">Keep mine</button>
+        ${theirs ? '<button id="conflict-take">Take theirs</button>' : ''}
+        ${theirs ? '<button id="conflict-diff">View diff</button>' : ''}
+      </div>
+      <table class="conflict-diff" style="display: none;"></table>
+    </div>
+  `
+  document.body.appendChild(dialog)
+
+  dialog.querySelector('#conflict-keep')?.addEventListener('click', async () => {
+    dialog.remove()
+    try {
+      // Overwrite exactly the version we were shown
+      await writeAvatarRecord(repo, mine, stored?.cid ?? null)
+      showNotification('Avatar saved to Bluesky!')
+    } catch (err: any) {
+      const { kind, message } = classifySaveError(err)
+      console.error(`Save error (${kind}):`, err)
+      if (kind === 'conflict') {
+        showSaveConflict(repo, await fetchStoredAvatar(repo))
+      }
+      showNotification('Error: ' + message)
+    }
+  })
+
+  dialog.querySelector('#conflict-take')?.addEventListener('click', () => {
+    dialog.remove()
+    baseRecordCid = stored!.cid
+    savedConfig = theirs!
+    activePresetKey = getActivePresetKey(stored!.value)
+    renderPresetList()
+    applyConfig(theirs!)
+    updateEditState()
+    showNotification('Loaded the avatar from your other device')
+  })
+
+  dialog.querySelector('#conflict-diff')?.addEventListener('click', () => {
+    const table = dialog.querySelector('.conflict-diff') as HTMLTableElement
+    const changed = (Object.keys(mine) as (keyof AvatarConfig)[]).filter(key => mine[key] !== theirs![key])
+    table.innerHTML = `
+      <tr><th></th><th>Mine</th><th>Theirs</th></tr>
+      ${changed.map(key => `<tr><td>${key}</td><td>${String(mine[key])}</td><td>${String(theirs![key])}</td></tr>`).join('')}
+    `
+    table.style.display = table.style.display === 'none' ? 'table' : 'none'
+  })
+}
+
+// Avatar history - one TID-keyed record per save, newest first
+const HISTORY_LIMIT = 12
+const historyThumbnails = new Map<string, string>()
+
+async function refreshHistoryStrip() {
+  const strip = document.getElementById('history-strip')
+  const repo = agent.session?.did
+  if (!strip || !repo) return
+
+  try {
+    const response = await agent.com.atproto.repo.listRecords({
+      repo,
+      collection: AVATAR_HISTORY_COLLECTION,
+      limit: HISTORY_LIMIT
+    })
+
+    if (response.data.records.length === 0) {
+      strip.innerHTML = '<span class="history-empty">No saved looks yet</span>'
+      return
+    }
+
+    strip.innerHTML = ''
+    response.data.records.forEach(entry => {
+      const value = entry.value as { avatar?: unknown; createdAt?: string }
+      const { config } = validateAvatarRecord(value.avatar)
+
+      if (!historyThumbnails.has(entry.uri)) {
+        historyThumbnails.set(entry.uri, renderAvatarSnapshot(config, { size: 96 }).toDataURL())
+      }
+
+      const thumb = document.createElement('button')
+      thumb.className = 'history-thumb'
+      thumb.title = value.createdAt ? new Date(value.createdAt).toLocaleString() : 'Unknown date'
+      thumb.innerHTML = `<img src="${historyThumbnails.get(entry.uri)}" alt="">`
+      thumb.addEventListener('click', () => restoreAvatarRevision(config, thumb.title))
+      strip.appendChild(thumb)
+    })
+  } catch (err) {
+    console.warn('Could not load avatar history:', err)
+  }
+}
+
+// Make a past look the current one - saving writes it as 'self' again
+async function restoreAvatarRevision(config: AvatarConfig, label: string) {
+  if (!confirm(`Restore your look from ${label}? It will replace your current avatar.`)) return
+
+  applyConfig(config)
+
+  const result = await saveAvatarToBluesky()
+  if (!result.success) {
+    showNotification('Error: ' + result.error)
+  }
+}
+
+// Named presets ("outfits") - xyz.bskatar.preset records in the user's repo
+let presets: AvatarPreset[] = []
+let activePresetKey: string | null = null
+
+async function refreshPresets() {
+  const repo = agent.session?.did
+  if (!repo) return
+
+  try {
+    const response = await agent.com.atproto.repo.listRecords({
+      repo,
+      collection: AVATAR_PRESET_COLLECTION,
+      limit: 50
+    })
+    presets = response.data.records
+      .map(entry => readAvatarPreset(new AtUri(entry.uri).rkey, entry.value))
+      .sort((a, b) => a.name.localeCompare(b.name))
+    renderPresetList()
+  } catch (err) {
+    console.warn('Could not load presets:', err)
+  }
+}
+
+function renderPresetList() {
+  const list = document.getElementById('preset-list')
+  if (!list) return
+
+  list.innerHTML = presets.length === 0 ? '<span class="preset-empty">No saved outfits yet</span>' : ''
+  presets.forEach(preset => {
+    const isActive = preset.rkey === activePresetKey
+    const row = document.createElement('div')
+    row.className = 'preset-row' + (isActive ? ' active' : '')
+
+    const nameBtn = document.createElement('button')
+    nameBtn.className = 'preset-name'
+    nameBtn.textContent = preset.name
+    nameBtn.title = 'Load into editor'
+    nameBtn.addEventListener('click', () => applyPreset(preset))
+
+    const activeBtn = document.createElement('button')
+    activeBtn.className = 'preset-active'
+    activeBtn.textContent = isActive ? '★' : '☆'
+    activeBtn.title = isActive ? 'Active outfit' : 'Wear this outfit'
+    activeBtn.addEventListener('click', () => activatePreset(preset))
+
+    const deleteBtn = document.createElement('button')
+    deleteBtn.className = 'preset-delete'
+    deleteBtn.textContent = '×'
+    deleteBtn.title = 'Delete outfit'
+    deleteBtn.addEventListener('click', () => deleteAvatarPreset(preset))
+
+    row.append(nameBtn, activeBtn, deleteBtn)
+    list.appendChild(row)
+  })
+}
+
+// Load a preset into the editor without saving
+function applyPreset(preset: AvatarPreset) {
+  applyConfig(preset.config)
+}
+
+// Wear a preset - it becomes the 'self' record, pointing back at the preset
+async function activatePreset(preset: AvatarPreset) {
+  applyPreset(preset)
+  const result = await saveAvatarToBluesky(preset.rkey)
+  if (result.success) {
+    showNotification(`Now wearing "${preset.name}"`)
+  } else {
+    showNotification('Error: ' + result.error)
+  }
+}
+
+// Save the current look under a name, replacing a preset with the same name
+async function saveAvatarPreset(name: string): Promise<{ success: boolean; error?: string }> {
+  const repo = agent.session?.did
+  if (!repo) return { success: false, error: 'Not logged in' }
+
+  try {
+    const record = createAvatarPresetRecord(name, currentConfig)
+    const existing = presets.find(preset => preset.name === record.name)
+
+    if (existing) {
       await agent.com.atproto.repo.putRecord({
         repo,
-        collection: AVATAR_COLLECTION,
-        rkey: AVATAR_RKEY,
-        record: {
-          $type: AVATAR_COLLECTION,
-          ...currentConfig,
-          createdAt: new Date().toISOString()
-        }
+        collection: AVATAR_PRESET_COLLECTION,
+        rkey: existing.rkey,
+        record
       })
-    } catch {
-      // Create new record if doesn't exist
+    } else {
       await agent.com.atproto.repo.createRecord({
         repo,
-        collection: AVATAR_COLLECTION,
-        rkey: AVATAR_RKEY,
-        record: {
-          $type: AVATAR_COLLECTION,
-          ...currentConfig,
-          createdAt: new Date().toISOString()
-        }
+        collection: AVATAR_PRESET_COLLECTION,
+        record
       })
     }
 
-    showNotification('Avatar saved to Bluesky!')
+    await refreshPresets()
+
+    // Keep 'self' in sync when the outfit being worn changes
+    if (existing && existing.rkey === activePresetKey) {
+      return await saveAvatarToBluesky(existing.rkey)
+    }
+
+    showNotification(`Saved outfit "${record.name}"`)
     return { success: true }
   } catch (err: any) {
-    console.error('Save error:', err)
-    return { success: false, error: err.message || 'Save failed' }
+    const { kind, message } = classifySaveError(err)
+    console.error(`Preset save error (${kind}):`, err)
+    return { success: false, error: message }
+  }
+}
+
+async function deleteAvatarPreset(preset: AvatarPreset) {
+  const repo = agent.session?.did
+  if (!repo) return
+  if (!confirm(`Delete the outfit "${preset.name}"?`)) return
+
+  try {
+    await agent.com.atproto.repo.deleteRecord({
+      repo,
+      collection: AVATAR_PRESET_COLLECTION,
+      rkey: preset.rkey
+    })
+    // 'self' keeps its own copy of the look, so a dangling pointer is harmless
+    await refreshPresets()
+  } catch (err: any) {
+    showNotification('Error: ' + (err.message || 'Delete failed'))
   }
 }
 
@@ -931,44 +1176,104 @@ async function loadAvatarFromBluesky(): Promise<{ success: boolean; error?: stri
     const repo = agent.session?.did
     if (!repo) throw new Error('No session')
 
-    const response = await agent.com.atproto.repo.getRecord({
-      repo,
-      collection: AVATAR_COLLECTION,
-      rkey: AVATAR_RKEY
-    })
-
-    const record = response.data.value as any
-
-    // Apply loaded config
-    currentConfig = {
-      headShape: record.headShape || 'round',
-      headColor: record.headColor || '#ffccaa',
-      hairStyle: record.hairStyle || 'short',
-      hairColor: record.hairColor || '#4a3728',
-      eyeStyle: record.eyeStyle || 'dots',
-      eyeColor: record.eyeColor || '#333333',
-      eyebrowStyle: record.eyebrowStyle || 'normal',
-      noseStyle: record.noseStyle || 'small',
-      mouthStyle: record.mouthStyle || 'smile',
-      hasBlush: record.hasBlush ?? true
+    const stored = await fetchStoredAvatar(repo)
+    if (!stored) {
+      // No existing avatar is fine
+      console.log('No existing avatar found')
+      baseRecordCid = null
+      savedConfig = null
+      // Start from the look bskyplace already shows for this account, unless
+      // they've started editing
+      if (avatarConfigsEqual(currentConfig, DEFAULT_AVATAR_CONFIG)) {
+        applyConfig(defaultAvatarForDid(repo))
+        showNotification('Here is your starter look - make it yours!')
+      }
+      updateEditState()
+      return { success: false, error: 'No avatar saved yet' }
     }
 
-    buildAvatar(currentConfig)
-    updateConfigDisplay()
-    updateUIFromConfig()
-    showNotification('Avatar loaded from Bluesky!')
+    // Apply loaded config, repairing anything the lexicon rejects
+    const { config, issues, fromVersion, isNewer } = validateAvatarRecord(stored.value)
+    if (issues.length > 0) {
+      console.warn(`Repaired avatar record (v${fromVersion}):`, formatValidationIssues(issues))
+    }
+    loadedNewerRecord = isNewer
+    baseRecordCid = stored.cid
+    savedConfig = config
+    activePresetKey = getActivePresetKey(stored.value)
+    renderPresetList()
+
+    // Undoable, so edits made before logging in aren't lost
+    applyConfig(config)
+    updateEditState()
+    if (isNewer) {
+      showNotification('Avatar was made with a newer bskatar - some features show as defaults')
+    } else {
+      showNotification(issues.length > 0
+        ? `Avatar loaded - repaired ${issues.length} invalid field${issues.length === 1 ? '' : 's'}`
+        : 'Avatar loaded from Bluesky!')
+    }
     return { success: true }
   } catch (err: any) {
-    // No existing avatar is fine
-    if (err.message?.includes('not found') || err.status === 400) {
-      console.log('No existing avatar found')
-      return { success: false, error: 'No avatar saved yet' }
-    }
     console.error('Load error:', err)
     return { success: false, error: err.message || 'Load failed' }
   }
 }
 
+// Profile picture - render a headshot and set it on app.bsky.actor.profile.
+// Always previewed and confirmed first since it changes the public profile.
+function showProfilePictureDialog() {
+  document.querySelector('.modal')?.remove()
+
+  const canvas = renderProfilePicture(currentConfig)
+  const dialog = document.createElement('div')
+  dialog.className = 'modal'
+  dialog.innerHTML = `
+    <div class="modal-panel">
+      <h3>Use as profile picture?</h3>
+      <img class="profile-preview" src="${canvas.toDataURL()}" alt="Profile picture preview">
+      <p>This replaces the profile picture on your public Bluesky profile. Your name, bio and banner stay as they are.</p>
+      <div class="modal-buttons">
+        <button id="profile-confirm" class="primary-btn">Update profile</button>
+        <button id="profile-cancel">Cancel</button>
+      </div>
+    </div>
+  `
+  document.body.appendChild(dialog)
+
+  dialog.querySelector('#profile-cancel')!.addEventListener('click', () => dialog.remove())
+  dialog.querySelector('#profile-confirm')!.addEventListener('click', async () => {
+    const btn = dialog.querySelector('#profile-confirm') as HTMLButtonElement
+    btn.disabled = true
+    btn.textContent = 'Updating...'
+    const result = await setProfilePicture(canvas)
+    dialog.remove()
+    showNotification(result.success ? 'Profile picture updated!' : 'Error: ' + result.error)
+  })
+}
+
+async function setProfilePicture(canvas: HTMLCanvasElement): Promise<{ success: boolean; error?: string }> {
+  if (!isLoggedIn) {
+    return { success: false, error: 'Not logged in' }
+  }
+
+  try {
+    const image = await encodeProfilePicture(canvas)
+    const upload = await agent.uploadBlob(image, { encoding: image.type })
+
+    // upsertProfile keeps every other profile field and retries on swap races
+    await agent.upsertProfile(existing => ({
+      ...existing,
+      avatar: upload.data.blob
+    }))
+    return { success: true }
+  } catch (err: any) {
+    const { kind, message } = classifySaveError(err)
+    console.error(`Profile picture error (${kind}):`, err)
+    return { success: false, error: message }
+  }
+}
+
 function showNotification(message: string) {
   const existing = document.querySelector('.notification')
   if (existing) existing.remove()
@@ -989,6 +1294,11 @@ function updateAuthUI() {
   const authSection = document.querySelector('.auth-section')
   if (!authSection) return
 
+  const presetSection = document.getElementById('preset-section')
+  if (presetSection) presetSection.style.display = isLoggedIn ? 'block' : 'none'
+  const didLookBtn = document.getElementById('did-look-btn')
+  if (didLookBtn) didLookBtn.style.display = isLoggedIn ? 'block' : 'none'
+
   if (isLoggedIn) {
     authSection.innerHTML = `
       <div class="logged-in">
@@ -999,6 +1309,11 @@ function updateAuthUI() {
         <button id="save-btn" class="primary-btn">Save to Bluesky</button>
         <button id="load-btn">Load from Bluesky</button>
       </div>
+      <button id="profile-pic-btn" class="profile-pic-btn">Use as profile picture</button>
+      <div class="history-section">
+        <label>History</label>
+        <div class="history-strip" id="history-strip"></div>
+      </div>
     `
     document.getElementById('logout-btn')?.addEventListener('click', logout)
     document.getElementById('save-btn')?.addEventListener('click', async () => {
@@ -1012,6 +1327,7 @@ function updateAuthUI() {
         showNotification('Error: ' + result.error)
       }
     })
+    document.getElementById('profile-pic-btn')?.addEventListener('click', showProfilePictureDialog)
     document.getElementById('load-btn')?.addEventListener('click', async () => {
       const btn = document.getElementById('load-btn') as HTMLButtonElement
       btn.disabled = true
@@ -1060,7 +1376,7 @@ function updateAuthUI() {
   }
 }
 
-function updateUIFromConfig() {
+function updateUIFromConfig(syncSliders = true) {
   // Update button active states to match loaded config
   const ui = document.querySelector('.ui-panel')
   if (!ui) return
@@ -1095,17 +1411,23 @@ function updateUIFromConfig() {
     btn.classList.toggle('active', (btn as HTMLElement).dataset.mouth === currentConfig.mouthStyle)
   })
 
-  // Colors
-  ui.querySelectorAll('[data-type="head"] .color-btn').forEach(btn => {
-    btn.classList.toggle('active', (btn as HTMLElement).dataset.color === currentConfig.headColor)
+  // Outfit + accessories
+  ui.querySelectorAll('[data-outfit]').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.outfit === currentConfig.outfitStyle)
+  })
+  ui.querySelectorAll('[data-hat]').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.hat === currentConfig.hatStyle)
   })
-  ui.querySelectorAll('[data-type="hair"] .color-btn').forEach(btn => {
-    btn.classList.toggle('active', (btn as HTMLElement).dataset.color === currentConfig.hairColor)
+  ui.querySelectorAll('[data-glasses]').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.glasses === currentConfig.glassesStyle)
   })
-  ui.querySelectorAll('[data-type="eyes"] .color-btn').forEach(btn => {
-    btn.classList.toggle('active', (btn as HTMLElement).dataset.color === currentConfig.eyeColor)
+  ui.querySelectorAll('[data-back]').forEach(btn => {
+    btn.classList.toggle('active', (btn as HTMLElement).dataset.back === currentConfig.backpackStyle)
   })
 
+  // Colors
+  ;(Object.keys(COLOR_SLOTS) as ColorSlot[]).forEach(slot => updateColorControls(slot, syncSliders))
+
   // Blush
   const blushToggle = document.getElementById('blush-toggle') as HTMLInputElement
   if (blushToggle) blushToggle.checked = currentConfig.hasBlush
@@ -1114,9 +1436,12 @@ function updateUIFromConfig() {
 createUI()
 
 // Animation loop
+const clock = new THREE.Clock()
+
 function animate() {
   requestAnimationFrame(animate)
   controls.update()
+  faceAnimator?.update(clock.getDelta())
 
   // Gentle idle animation
   avatarGroup.rotation.y = Math.sin(Date.now() * 0.0005) * 0.1
@@ -0,0 +1,85 @@
+import * as THREE from 'three'
+import { createAvatar, disposeAvatar, type AvatarConfig } from '../../shared/avatar'
+
+// Offscreen avatar renders (history thumbnails, exports).
+// Uses its own renderer so snapshots never disturb the live view's camera,
+// background or canvas size.
+
+export interface SnapshotOptions {
+  size: number
+  // CSS color, or null for a transparent background
+  background?: string | null
+  // 'profile' frames the face tighter so it survives a circular crop
+  framing?: 'headshot' | 'profile'
+}
+
+let snapshotRenderer: THREE.WebGLRenderer | null = null
+
+function getSnapshotRenderer(): THREE.WebGLRenderer {
+  if (!snapshotRenderer) {
+    snapshotRenderer = new THREE.WebGLRenderer({
+      antialias: true,
+      alpha: true,
+      preserveDrawingBuffer: true
+    })
+    snapshotRenderer.setPixelRatio(1)
+  }
+  return snapshotRenderer
+}
+
+// Same soft lighting as the editor view
+function createSnapshotScene(): THREE.Scene {
+  const scene = new THREE.Scene()
+  scene.add(new THREE.AmbientLight(0xffffff, 0.7))
+
+  const mainLight = new THREE.DirectionalLight(0xffffff, 0.8)
+  mainLight.position.set(2, 4, 3)
+  scene.add(mainLight)
+
+  const fillLight = new THREE.DirectionalLight(0xffffff, 0.3)
+  fillLight.position.set(-2, -1, 2)
+  scene.add(fillLight)
+
+  return scene
+}
+
+// Render a square headshot of the avatar into a new 2D canvas
+export function renderAvatarSnapshot(config: AvatarConfig, options: SnapshotOptions): HTMLCanvasElement {
+  const { size, background = null, framing = 'headshot' } = options
+  const renderer = getSnapshotRenderer()
+  renderer.setSize(size, size, false)
+
+  const scene = createSnapshotScene()
+  if (background) scene.background = new THREE.Color(background)
+
+  // Framed so the head plus the tallest hair fits with a little margin
+  const camera = new THREE.PerspectiveCamera(30, 1, 0.1, 100)
+  if (framing === 'profile') {
+    camera.position.set(0, 0.05, 6)
+    camera.lookAt(0, 0.05, 0)
+  } else {
+    camera.position.set(0, 0.1, 5.2)
+    camera.lookAt(0, 0.1, 0)
+  }
+
+  const avatar = createAvatar(config)
+  scene.add(avatar)
+
+  renderer.setClearColor(0x000000, 0)
+  renderer.render(scene, camera)
+
+  // Copy out - the renderer's canvas is reused by the next snapshot
+  const canvas = document.createElement('canvas')
+  canvas.width = size
+  canvas.height = size
+  canvas.getContext('2d')!.drawImage(renderer.domElement, 0, 0)
+
+  disposeAvatar(avatar)
+  return canvas
+}
+
+export function canvasToBlob(canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Could not encode image')), type, quality)
+  })
+}
@@ -0,0 +1,57 @@
+import type { AvatarConfig } from '../../shared/avatar'
+
+// Undo/redo over editor states. Each entry is a full AvatarConfig snapshot -
+// configs are tiny, so snapshots beat tracking per-field diffs.
+
+const MAX_UNDO_STEPS = 100
+
+// Changes sharing a coalesce key this close together undo as one step
+const COALESCE_WINDOW_MS = 600
+
+let undoStack: AvatarConfig[] = []
+let redoStack: AvatarConfig[] = []
+let lastCoalesceKey: string | null = null
+let lastChangeAt = 0
+
+// Record the state from before a change
+export function recordUndo(before: AvatarConfig, coalesceKey: string | null = null) {
+  const now = Date.now()
+  const coalesce = coalesceKey !== null && coalesceKey === lastCoalesceKey && now - lastChangeAt < COALESCE_WINDOW_MS
+  lastCoalesceKey = coalesceKey
+  lastChangeAt = now
+  redoStack = []
+  if (coalesce) return
+
+  undoStack.push({ ...before })
+  if (undoStack.length > MAX_UNDO_STEPS) undoStack.shift()
+}
+
+// Close the current coalesced step (e.g. the slider was released)
+export function endUndoCoalescing() {
+  lastCoalesceKey = null
+}
+
+// Returns the state to show, or null when there is nothing to undo
+export function undo(current: AvatarConfig): AvatarConfig | null {
+  const previous = undoStack.pop()
+  if (!previous) return null
+  redoStack.push({ ...current })
+  lastCoalesceKey = null
+  return previous
+}
+
+export function redo(current: AvatarConfig): AvatarConfig | null {
+  const next = redoStack.pop()
+  if (!next) return null
+  undoStack.push({ ...current })
+  lastCoalesceKey = null
+  return next
+}
+
+export function canUndo(): boolean {
+  return undoStack.length > 0
+}
+
+export function canRedo(): boolean {
+  return redoStack.length > 0
+}
@@ -0,0 +1,12 @@
+import { defineConfig } from 'vite'
+
+export default defineConfig({
+  // The shared avatar module lives outside this app (../shared)
+  server: {
+    fs: { allow: ['..'] }
+  },
+  resolve: {
+    // Resolve three from this app's node_modules for shared/ sources too
+    dedupe: ['three']
+  }
+})
@@ -0,0 +1,186 @@
+import * as THREE from 'three'
+
+// Speech and emote bubbles above avatars, drawn as pixel art.
+// The canvas is sized in low-res render pixels and the sprite is rescaled
+// every frame so one canvas pixel always covers one pixel of the 480x270
+// target, whatever the zoom - no blurry or shimmering text.
+
+export interface BubbleStyle {
+  background: string
+  border: string
+  text: string
+}
+
+export const BUBBLE_STYLES: Record<'cyber' | 'fantasy', BubbleStyle> = {
+  cyber: { background: '#0a0a1a', border: '#00ffff', text: '#ffffff' },
+  fantasy: { background: '#f5e6c8', border: '#5c4033', text: '#3b2a1a' }
+}
+
+// Rows of a tiny bitmap - '#' pixels are drawn in color, anything else is empty
+export interface PixelIcon {
+  rows: string[]
+  color: string
+}
+
+export interface BubbleContent {
+  icon?: PixelIcon
+  text?: string
+}
+
+// Shared with post panels so all in-world text looks the same
+export const PIXEL_FONT = '8px monospace'
+export const PIXEL_LINE_HEIGHT = 9
+const MAX_LINE_WIDTH = 96 // About 20 Latin characters
+const MAX_LINES = 3
+const PADDING = 3
+const TAIL = 3
+
+const words = new Intl.Segmenter(undefined, { granularity: 'word' })
+const graphemes = new Intl.Segmenter()
+
+// Greedy wrap to a pixel width, measured in ctx's current font - full-width
+// CJK glyphs are about twice as wide as Latin ones. Breaks between words
+// (the segmenter finds them in text without spaces too), splits words wider
+// than a line between graphemes, and ends with '…' when it runs out of lines.
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number): string[] {
+  const fits = (line: string) => ctx.measureText(line).width <= maxWidth
+  const lines: string[] = []
+  let line = ''
+  for (const { segment } of words.segment(text.trim().replace(/\s+/g, ' '))) {
+    if (fits(line + segment)) {
+      line += segment
+      continue
+    }
+    if (fits(segment)) {
+      lines.push(line.trimEnd())
+      line = segment === ' ' ? '' : segment
+    } else {
+      // Too wide for any line - fill this one and carry on below
+      for (const { segment: grapheme } of graphemes.segment(segment)) {
+        if (line && !fits(line + grapheme)) {
+          lines.push(line.trimEnd())
+          line = ''
+        }
+        line += grapheme
+      }
+    }
+    // One more line is enough to know it needs the ellipsis
+    if (lines.length > maxLines) break
+  }
+  if (line) lines.push(line)
+  if (lines.length > maxLines) {
+    lines.length = maxLines
+    const kept = [...graphemes.segment(lines[maxLines - 1])].map(({ segment }) => segment)
+    while (kept.length > 0 && !fits(kept.join('') + '…')) kept.pop()
+    lines[maxLines - 1] = kept.join('').trimEnd() + '…'
+  }
+  return lines
+}
+
+// Canvas text is always antialiased - snap its alpha so glyphs come out as
+// hard pixels like the rest of the scene
+export function snapAlpha(ctx: CanvasRenderingContext2D, width: number, height: number) {
+  const image = ctx.getImageData(0, 0, width, height)
+  const data = image.data
+  for (let i = 3; i < data.length; i += 4) {
+    data[i] = data[i] >= 110 ? 255 : 0
+  }
+  ctx.putImageData(image, 0, 0)
+}
+
+function drawBubble(content: BubbleContent, style: BubbleStyle, tail: number): HTMLCanvasElement {
+  const measure = document.createElement('canvas').getContext('2d')!
+  measure.font = PIXEL_FONT
+  const lines = content.text ? wrapText(measure, content.text, MAX_LINE_WIDTH, MAX_LINES) : []
+  const textWidth = Math.ceil(Math.max(0, ...lines.map(line => measure.measureText(line).width)))
+  const textHeight = lines.length * PIXEL_LINE_HEIGHT
+
+  const icon = content.icon
+  const iconWidth = icon ? Math.max(...icon.rows.map(row => row.length)) : 0
+  const iconHeight = icon ? icon.rows.length : 0
+  const gap = icon && lines.length > 0 ? 3 : 0
+
+  const innerWidth = iconWidth + gap + textWidth
+  const innerHeight = Math.max(iconHeight, textHeight)
+  const width = innerWidth + PADDING * 2 + 2
+  const bodyHeight = innerHeight + PADDING * 2 + 2
+
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = bodyHeight + tail
+  const ctx = canvas.getContext('2d')!
+
+  // Text first so snapping its alpha doesn't touch the box
+  ctx.font = PIXEL_FONT
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = style.text
+  const textX = 1 + PADDING + iconWidth + gap
+  const textY = 1 + PADDING + Math.floor((innerHeight - textHeight) / 2)
+  lines.forEach((line, i) => ctx.fillText(line, textX, textY + i * PIXEL_LINE_HEIGHT))
+  snapAlpha(ctx, width, canvas.height)
+
+  // Box behind the text, with a 1px border and a stepped tail
+  ctx.globalCompositeOperation = 'destination-over'
+  ctx.fillStyle = style.background
+  ctx.fillRect(1, 1, width - 2, bodyHeight - 2)
+  const mid = Math.floor(width / 2)
+  for (let i = 0; i < tail; i++) {
+    ctx.fillRect(mid - (tail - 1 - i), bodyHeight - 1 + i, (tail - 1 - i) * 2 + 1, 1)
+  }
+  ctx.fillStyle = style.border
+  ctx.fillRect(0, 0, width, bodyHeight)
+  for (let i = 0; i < tail; i++) {
+    ctx.fillRect(mid - (tail - i), bodyHeight - 1 + i, (tail - i) * 2 + 1, 1)
+  }
+  ctx.globalCompositeOperation = 'source-over'
+
+  if (icon) {
+    ctx.fillStyle = icon.color
+    const iconY = 1 + PADDING + Math.floor((innerHeight - iconHeight) / 2)
+    icon.rows.forEach((row, y) => {
+      for (let x = 0; x < row.length; x++) {
+        if (row[x] === '#') ctx.fillRect(1 + PADDING + x, iconY + y, 1, 1)
+      }
+    })
+  }
+
+  return canvas
+}
+
+function createPixelSprite(canvas: HTMLCanvasElement): THREE.Sprite {
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.minFilter = THREE.NearestFilter
+  texture.magFilter = THREE.NearestFilter
+  texture.generateMipmaps = false
+  texture.colorSpace = THREE.SRGBColorSpace
+
+  // Always on top - a bubble hidden behind a post panel says nothing
+  const material = new THREE.SpriteMaterial({ map: texture, depthTest: false, transparent: true })
+  const sprite = new THREE.Sprite(material)
+  sprite.center.set(0.5, 0)
+  sprite.renderOrder = 10
+  sprite.userData.pixelWidth = canvas.width
+  sprite.userData.pixelHeight = canvas.height
+  return sprite
+}
+
+// A sprite anchored at its bottom center (the tail tip) - add it above a head
+export function createBubble(content: BubbleContent, style: BubbleStyle): THREE.Sprite {
+  return createPixelSprite(drawBubble(content, style, TAIL))
+}
+
+// Same box without a tail, for labels like name tags
+export function createNameTag(text: string, style: BubbleStyle): THREE.Sprite {
+  return createPixelSprite(drawBubble({ text }, style, 0))
+}
+
+// unitsPerPixel: world units covered by one low-res pixel at the current zoom
+export function updateBubbleScale(sprite: THREE.Sprite, unitsPerPixel: number) {
+  sprite.scale.set(sprite.userData.pixelWidth * unitsPerPixel, sprite.userData.pixelHeight * unitsPerPixel, 1)
+}
+
+export function disposeBubble(sprite: THREE.Sprite) {
+  sprite.removeFromParent()
+  sprite.material.map?.dispose()
+  sprite.material.dispose()
+}
@@ -0,0 +1,56 @@
+import { RichText, type BskyAgent } from '@atproto/api'
+
+// Drafting posts: length, facets and language tags the way Bluesky counts
+// them. Posts are limited in graphemes, not characters - an emoji with a
+// skin tone is one grapheme but several UTF-16 units.
+
+export const MAX_POST_GRAPHEMES = 300
+export const MAX_POST_LANGS = 3
+
+export interface DraftInfo {
+  graphemes: number
+  remaining: number
+  mentions: string[]
+  links: string[]
+  tags: string[]
+}
+
+// Live preview while typing - mentions aren't resolved to DIDs yet
+export function inspectDraft(text: string): DraftInfo {
+  const rt = new RichText({ text })
+  rt.detectFacetsWithoutResolution()
+
+  const info: DraftInfo = {
+    graphemes: rt.graphemeLength,
+    remaining: MAX_POST_GRAPHEMES - rt.graphemeLength,
+    mentions: [],
+    links: [],
+    tags: []
+  }
+  for (const segment of rt.segments()) {
+    if (segment.isMention()) info.mentions.push(segment.text)
+    else if (segment.isLink()) info.links.push(segment.link!.uri)
+    else if (segment.isTag()) info.tags.push(`#${segment.tag!.tag}`)
+  }
+  return info
+}
+
+// Text + facets ready to publish. Mentions of handles that don't resolve
+// are left as plain text.
+export async function prepareRichText(agent: BskyAgent, text: string): Promise<RichText> {
+  const rt = new RichText({ text: text.trim() })
+  await rt.detectFacets(agent)
+  return rt
+}
+
+// The browser's language, e.g. 'en' from 'en-US'
+export function defaultLangs(): string {
+  return (navigator.language || 'en').split('-')[0]
+}
+
+// Comma-separated BCP-47 tags, or null if any of them isn't one
+export function parseLangs(input: string): string[] | null {
+  const langs = input.split(',').map(lang => lang.trim()).filter(Boolean)
+  if (langs.length > MAX_POST_LANGS) return null
+  return langs.every(lang => /^[a-zA-Z]{2,3}(-[a-zA-Z0-9]{2,8})*$/.test(lang)) ? langs : null
+}
@@ -0,0 +1,89 @@
+import * as THREE from 'three'
+import type { PixelIcon } from './bubble'
+import { EMOTES } from './emotes'
+
+// Short-lived particle effects in the world, like the heart burst when you
+// like a post. Particles are pixel-art sprites so they go through the
+// low-res pipeline looking like the rest of the scene.
+
+interface Particle {
+  sprite: THREE.Sprite
+  velocity: THREE.Vector3
+  age: number
+  lifetime: number
+}
+
+export interface Effects {
+  heartBurst(position: THREE.Vector3): void
+  update(delta: number): void
+}
+
+const HEART_COUNT = 10
+const HEART_SIZE = 0.45
+const GRAVITY = 4
+
+function createIconTexture(icon: PixelIcon): THREE.CanvasTexture {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(...icon.rows.map(row => row.length))
+  canvas.height = icon.rows.length
+  const ctx = canvas.getContext('2d')!
+  ctx.fillStyle = icon.color
+  icon.rows.forEach((row, y) => {
+    for (let x = 0; x < row.length; x++) {
+      if (row[x] === '#') ctx.fillRect(x, y, 1, 1)
+    }
+  })
+
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.minFilter = THREE.NearestFilter
+  texture.magFilter = THREE.NearestFilter
+  texture.generateMipmaps = false
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
+
+export function createEffects(scene: THREE.Scene): Effects {
+  const particles: Particle[] = []
+  // Same heart as the emote, made once and shared by every particle
+  let heartTexture: THREE.CanvasTexture | null = null
+
+  return {
+    heartBurst(position) {
+      heartTexture ??= createIconTexture(EMOTES.heart.bubble.icon!)
+      for (let i = 0; i < HEART_COUNT; i++) {
+        const material = new THREE.SpriteMaterial({ map: heartTexture, transparent: true, depthTest: false })
+        const sprite = new THREE.Sprite(material)
+        sprite.renderOrder = 10
+        sprite.position.copy(position)
+        sprite.scale.setScalar(HEART_SIZE)
+        scene.add(sprite)
+
+        // Fan out and up, a little different every time
+        const angle = (i / HEART_COUNT) * Math.PI * 2 + Math.random() * 0.5
+        particles.push({
+          sprite,
+          velocity: new THREE.Vector3(Math.cos(angle) * 2, 3 + Math.random() * 2, Math.sin(angle) * 2),
+          age: 0,
+          lifetime: 0.9 + Math.random() * 0.4
+        })
+      }
+    },
+
+    update(delta) {
+      for (let i = particles.length - 1; i >= 0; i--) {
+        const particle = particles[i]
+        particle.age += delta
+        if (particle.age >= particle.lifetime) {
+          scene.remove(particle.sprite)
+          particle.sprite.material.dispose()
+          particles.splice(i, 1)
+          continue
+        }
+        particle.velocity.y -= GRAVITY * delta
+        particle.sprite.position.addScaledVector(particle.velocity, delta)
+        // Fade over the last third
+        particle.sprite.material.opacity = Math.min(1, (particle.lifetime - particle.age) / (particle.lifetime / 3))
+      }
+    }
+  }
+}
@@ -0,0 +1,130 @@
+import type * as THREE from 'three'
+import type { Expression } from '../../shared/avatarExpression'
+import type { PresenceEmote } from '../../shared/presence'
+import type { BubbleContent } from './bubble'
+
+// Emotes: a short body animation, a face and a bubble above the player.
+// Animations pose the avatar built by createAvatar (with body) - its arms
+// are named shoulder pivots, the group itself bounces and spins.
+
+// Emotes go over the network, so the ids are part of the presence protocol
+export type Emote = PresenceEmote
+
+export interface EmoteInfo {
+  label: string
+  bubble: BubbleContent
+  expression: Expression
+  // Seconds
+  duration: number
+}
+
+export const EMOTES: Record<Emote, EmoteInfo> = {
+  wave: {
+    label: 'Wave',
+    bubble: {
+      icon: {
+        color: '#ffd166',
+        rows: [
+          '.#.#.#..',
+          '.#.#.#..',
+          '.#####.#',
+          '.#######',
+          '.######.',
+          '..####..'
+        ]
+      },
+      text: 'hi!'
+    },
+    expression: 'happy',
+    duration: 2
+  },
+  dance: {
+    label: 'Dance',
+    bubble: {
+      icon: {
+        color: '#ff00ff',
+        rows: [
+          '..#####',
+          '..#...#',
+          '..#...#',
+          '..#...#',
+          '###.###',
+          '###.###'
+        ]
+      }
+    },
+    expression: 'happy',
+    duration: 3
+  },
+  heart: {
+    label: 'Heart',
+    bubble: {
+      icon: {
+        color: '#ff4d6d',
+        rows: [
+          '.##.##.',
+          '#######',
+          '#######',
+          '.#####.',
+          '..###..',
+          '...#...'
+        ]
+      }
+    },
+    expression: 'wink',
+    duration: 2
+  },
+  laugh: {
+    label: 'Laugh',
+    bubble: { text: 'HAHA!' },
+    expression: 'happy',
+    duration: 2
+  }
+}
+
+export const EMOTE_ORDER: Emote[] = ['wave', 'dance', 'heart', 'laugh']
+
+// Pose an avatar t seconds into an emote. baseY is its resting height.
+export function poseEmote(avatar: THREE.Object3D, emote: Emote, t: number, baseY: number) {
+  const leftArm = avatar.getObjectByName('leftArm')
+  const rightArm = avatar.getObjectByName('rightArm')
+  const { duration } = EMOTES[emote]
+  // Ease in and out of the pose instead of snapping
+  const blend = Math.max(0, Math.min(1, t / 0.2, (duration - t) / 0.2))
+
+  switch (emote) {
+    case 'wave':
+      if (rightArm) rightArm.rotation.z = (2.5 + Math.sin(t * 14) * 0.35) * blend
+      break
+
+    case 'dance':
+      avatar.rotation.y = t * 6 * blend
+      avatar.position.y = baseY + Math.abs(Math.sin(t * 8)) * 0.3 * blend
+      if (leftArm) leftArm.rotation.z = -(1.4 + Math.sin(t * 8) * 0.6) * blend
+      if (rightArm) rightArm.rotation.z = (1.4 - Math.sin(t * 8) * 0.6) * blend
+      break
+
+    case 'heart':
+      // Arms meet over the head
+      avatar.position.y = baseY + Math.max(0, Math.sin(t * 6)) * 0.15 * blend
+      if (leftArm) leftArm.rotation.z = -2.7 * blend
+      if (rightArm) rightArm.rotation.z = 2.7 * blend
+      break
+
+    case 'laugh':
+      // Lean back and shake
+      avatar.rotation.x = (-0.15 + Math.sin(t * 30) * 0.05) * blend
+      if (leftArm) leftArm.rotation.z = -0.5 * blend
+      if (rightArm) rightArm.rotation.z = 0.5 * blend
+      break
+  }
+}
+
+export function resetEmotePose(avatar: THREE.Object3D, baseY: number) {
+  avatar.rotation.set(0, 0, 0)
+  avatar.position.y = baseY
+  const leftArm = avatar.getObjectByName('leftArm')
+  const rightArm = avatar.getObjectByName('rightArm')
+  if (leftArm) leftArm.rotation.z = 0
+  if (rightArm) rightArm.rotation.z = 0
+}
@@ -0,0 +1,37 @@
+// DID -> PDS lookup, for reading records straight from someone's repo.
+// Other people's custom records (xyz.bskatar.*) aren't on the appview, so
+// visiting a place means asking their PDS directly.
+
+interface DidDocument {
+  service?: { id: string; type: string; serviceEndpoint: string }[]
+}
+
+const PLC_DIRECTORY = 'https://plc.directory'
+
+async function fetchDidDocument(did: string): Promise<DidDocument> {
+  let url: string
+  if (did.startsWith('did:plc:')) {
+    url = `${PLC_DIRECTORY}/${did}`
+  } else if (did.startsWith('did:web:')) {
+    url = `https://${decodeURIComponent(did.slice('did:web:'.length))}/.well-known/did.json`
+  } else {
+    throw new Error(`Unsupported DID method: ${did}`)
+  }
+
+  const response = await fetch(url)
+  if (!response.ok) throw new Error(`Could not resolve ${did} (${response.status})`)
+  return response.json()
+}
+
+const pdsCache = new Map<string, string>()
+
+export async function resolvePds(did: string): Promise<string> {
+  const cached = pdsCache.get(did)
+  if (cached) return cached
+
+  const doc = await fetchDidDocument(did)
+  const service = doc.service?.find(s => s.id.endsWith('#atproto_pds') && s.type === 'AtprotoPersonalDataServer')
+  if (!service) throw new Error(`${did} has no PDS`)
+  pdsCache.set(did, service.serviceEndpoint)
+  return service.serviceEndpoint
+}
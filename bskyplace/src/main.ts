@@ -1,5 +1,45 @@
 import * as THREE from 'three'
-import { BskyAgent } from '@atproto/api'
+import { AppBskyFeedDefs, AppBskyFeedPost, BskyAgent, type AppBskyRichtextFacet } from '@atproto/api'
+import { createAvatar, DEFAULT_AVATAR_CONFIG, disposeAvatar, type AvatarConfig } from '../../shared/avatar'
+import {
+  AVATAR_COLLECTION,
+  AVATAR_PRESET_COLLECTION,
+  AVATAR_RKEY,
+  createAvatarRecord,
+  formatValidationIssues,
+  getActivePresetKey,
+  readAvatarPreset,
+  validateAvatarRecord
+} from '../../shared/avatarRecord'
+import { defaultAvatarForDid } from '../../shared/avatarGenerator'
+import { createFaceAnimator, EXPRESSION_PRESETS, type FaceAnimator } from '../../shared/avatarExpression'
+import { BUBBLE_STYLES, createBubble, createNameTag, disposeBubble, updateBubbleScale, type BubbleContent } from './bubble'
+import { EMOTE_ORDER, EMOTES, poseEmote, resetEmotePose, type Emote } from './emotes'
+import {
+  PRESENCE_LXM,
+  PRESENCE_SEND_INTERVAL_MS,
+  type ClientMessage,
+  type PresenceState,
+  type ServerMessage
+} from '../../shared/presence'
+import { connectWebSocketTransport, type PresenceTransport } from './presence'
+import { createPeerManager } from './peers'
+import { resolvePds } from './identity'
+import { createEffects } from './effects'
+import { THREAD_PARENT_HEIGHT, THREAD_REPLY_DEPTH, createThreadBridge, layoutThread, type ThreadBridge } from './thread'
+import { PANEL_FACE_HEIGHT, PANEL_FACE_WIDTH, loadPanelTexture } from './panelTexture'
+import { embedThumbnail, readEmbed, renderEmbed, renderRichText, type PostEmbed } from './postContent'
+import { defaultLangs, inspectDraft, MAX_POST_LANGS, parseLangs, prepareRichText, type DraftInfo } from './composer'
+import {
+  DEFAULT_OBJECT_COLORS,
+  defaultWorldLayout,
+  validateWorldRecord,
+  WORLD_COLLECTION,
+  WORLD_RKEY,
+  type WorldLayout,
+  type WorldObject,
+  type WorldTheme
+} from './worldLayout'
 import './style.css'
 
 // Low-res render target dimensions (GBA-ish but wider for modern screens)
@@ -13,49 +53,37 @@ const agent = new BskyAgent({ service: 'https://bsky.social' })
 let isLoggedIn = false
 let userHandle = ''
 
-// Avatar config type (matches bskatar)
-interface AvatarConfig {
-  headShape: 'round' | 'oval' | 'square'
-  headColor: string
-  hairStyle: 'none' | 'short' | 'spiky' | 'bob' | 'ponytail'
-  hairColor: string
-  eyeStyle: 'dots' | 'wide' | 'sleepy' | 'sparkle'
-  eyeColor: string
-  eyebrowStyle: 'none' | 'normal' | 'angry' | 'worried' | 'thick'
-  noseStyle: 'none' | 'small' | 'round' | 'pointed'
-  mouthStyle: 'smile' | 'neutral' | 'open' | 'cat' | 'surprised'
-  hasBlush: boolean
-}
-
 // Default avatar
-let playerAvatar: AvatarConfig = {
-  headShape: 'round',
-  headColor: '#ffccaa',
-  hairStyle: 'short',
-  hairColor: '#4a3728',
-  eyeStyle: 'dots',
-  eyeColor: '#333333',
-  eyebrowStyle: 'normal',
-  noseStyle: 'small',
-  mouthStyle: 'smile',
-  hasBlush: true
-}
+let playerAvatar: AvatarConfig = { ...DEFAULT_AVATAR_CONFIG }
 
 // Post type
 interface Post {
   uri: string
+  cid: string
   author: { handle: string; displayName?: string; avatar?: string }
   text: string
+  facets?: AppBskyRichtextFacet.Main[]
+  langs?: string[]
+  embed?: PostEmbed
   createdAt: string
+  // Thread root when this post is a reply - replies to it keep the same root
+  replyRoot?: { uri: string; cid: string }
+  counts: { replies: number; reposts: number; quotes: number; likes: number }
+  // URIs of our own like/repost records, if we have them
+  viewer: { like?: string; repost?: string }
   mesh?: THREE.Group
 }
 
+type PostAction = 'reply' | 'repost' | 'quote' | 'like'
+const LIKED_COLOR = '#ff4d6d'
+
 let posts: Post[] = []
 let closestPost: Post | null = null
+// While a thread is open, posts are its panels and the timeline waits here
+let thread: { bridge: ThreadBridge; timeline: Post[] } | null = null
 const INTERACT_DISTANCE = 6 // How close to glow/interact
 
 // World state
-type WorldTheme = 'cyber' | 'fantasy'
 let currentWorld: WorldTheme = 'cyber'
 
 // Scene setup - MMBN Cyber Net style
@@ -79,8 +107,6 @@ const camera = new THREE.OrthographicCamera(
 )
 
 // Fixed isometric angle (MMBN style)
-const isoAngle = Math.PI / 4 // 45 degrees rotation
-const isoTilt = Math.atan(1 / Math.sqrt(2)) // ~35 degrees down (true isometric)
 camera.position.set(30, 30, 30)
 camera.lookAt(0, 0, 0)
 camera.rotation.order = 'YXZ'
@@ -184,13 +210,13 @@ platformEdge.position.y = 0.3
 scene.add(platformEdge)
 
 // Cyber towers/data pillars instead of trees
-function createDataPillar(x: number, z: number, height: number = 8) {
+function createDataPillar(x: number, z: number, height: number = 8, color: string = DEFAULT_OBJECT_COLORS.pillar) {
   const pillar = new THREE.Group()
 
   // Main pillar - wireframe
   const pillarGeom = new THREE.BoxGeometry(1.5, height, 1.5, 1, 4, 1)
   const pillarMat = new THREE.MeshBasicMaterial({
-    color: '#ff00ff',
+    color,
     wireframe: true,
     transparent: true,
     opacity: 0.6
@@ -202,7 +228,7 @@ function createDataPillar(x: number, z: number, height: number = 8) {
   // Glowing core
   const coreGeom = new THREE.BoxGeometry(0.5, height - 1, 0.5)
   const coreMat = new THREE.MeshBasicMaterial({
-    color: '#ff00ff',
+    color,
     transparent: true,
     opacity: 0.8
   })
@@ -230,23 +256,12 @@ function createDataPillar(x: number, z: number, height: number = 8) {
   pillar.add(cube)
 
   pillar.position.set(x, 0, z)
+  pillar.userData.height = height
   return pillar
 }
 
-// Data pillars around the area
-const pillarPositions = [
-  { x: 20, z: 0, h: 10 }, { x: -20, z: 0, h: 8 },
-  { x: 0, z: 20, h: 12 }, { x: 0, z: -20, h: 9 },
-  { x: 15, z: 15, h: 7 }, { x: -15, z: 15, h: 11 },
-  { x: 15, z: -15, h: 8 }, { x: -15, z: -15, h: 10 },
-  { x: 25, z: 10, h: 6 }, { x: -25, z: -10, h: 9 },
-]
+// Data pillars around the area - placed by applyWorldLayout
 const pillars: THREE.Group[] = []
-pillarPositions.forEach(pos => {
-  const pillar = createDataPillar(pos.x, pos.z, pos.h)
-  pillars.push(pillar)
-  scene.add(pillar)
-})
 
 // Floating ring accents
 for (let i = 0; i < 5; i++) {
@@ -373,7 +388,7 @@ stoneCircle.receiveShadow = true
 fantasyGroup.add(stoneCircle)
 
 // Fantasy trees
-function createTree(x: number, z: number, height: number = 6): THREE.Group {
+function createTree(x: number, z: number, height: number = 6, color: string = DEFAULT_OBJECT_COLORS.tree): THREE.Group {
   const tree = new THREE.Group()
 
   // Trunk
@@ -384,11 +399,10 @@ function createTree(x: number, z: number, height: number = 6): THREE.Group {
   trunk.castShadow = true
   tree.add(trunk)
 
-  // Foliage layers
-  const foliageColors = ['#2d5a2d', '#3d6a3d', '#4d7a4d']
+  // Foliage layers, lighter towards the top
   for (let i = 0; i < 3; i++) {
     const foliageGeom = new THREE.ConeGeometry(2 - i * 0.4, height * 0.3, 8)
-    const foliageMat = new THREE.MeshLambertMaterial({ color: foliageColors[i] })
+    const foliageMat = new THREE.MeshLambertMaterial({ color: new THREE.Color(color).offsetHSL(0, 0, i * 0.06) })
     const foliage = new THREE.Mesh(foliageGeom, foliageMat)
     foliage.position.y = height * 0.4 + i * height * 0.2
     foliage.castShadow = true
@@ -399,56 +413,43 @@ function createTree(x: number, z: number, height: number = 6): THREE.Group {
   return tree
 }
 
-// Add trees to fantasy world
-const treePositions = [
-  { x: 20, z: 0, h: 8 }, { x: -20, z: 0, h: 6 },
-  { x: 0, z: 20, h: 10 }, { x: 0, z: -20, h: 7 },
-  { x: 15, z: 15, h: 5 }, { x: -15, z: 15, h: 9 },
-  { x: 15, z: -15, h: 6 }, { x: -15, z: -15, h: 8 },
-  { x: 25, z: 10, h: 4 }, { x: -25, z: -10, h: 7 },
-]
-treePositions.forEach(pos => {
-  const tree = createTree(pos.x, pos.z, pos.h)
-  fantasyGroup.add(tree)
-})
+// Fantasy flowers/mushrooms
+function createFlower(x: number, z: number, color: string = DEFAULT_OBJECT_COLORS.flower): THREE.Group {
+  const flower = new THREE.Group()
 
-// Fantasy flowers/mushrooms scattered
-for (let i = 0; i < 30; i++) {
-  const angle = Math.random() * Math.PI * 2
-  const dist = 10 + Math.random() * 25
-  const x = Math.cos(angle) * dist
-  const z = Math.sin(angle) * dist
-
-  // Randomly choose flower or mushroom
-  if (Math.random() > 0.5) {
-    // Flower
-    const stemGeom = new THREE.CylinderGeometry(0.05, 0.05, 0.5, 4)
-    const stemMat = new THREE.MeshLambertMaterial({ color: '#228b22' })
-    const stem = new THREE.Mesh(stemGeom, stemMat)
-    stem.position.set(x, 0.25, z)
-    fantasyGroup.add(stem)
-
-    const petalGeom = new THREE.SphereGeometry(0.2, 6, 4)
-    const flowerColors = ['#ff6b6b', '#ffd93d', '#6bcb77', '#4d96ff', '#ff6bff']
-    const petalMat = new THREE.MeshLambertMaterial({ color: flowerColors[Math.floor(Math.random() * flowerColors.length)] })
-    const petal = new THREE.Mesh(petalGeom, petalMat)
-    petal.position.set(x, 0.55, z)
-    fantasyGroup.add(petal)
-  } else {
-    // Mushroom
-    const capGeom = new THREE.SphereGeometry(0.25, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2)
-    const capColors = ['#ff6347', '#ffa500', '#dda0dd']
-    const capMat = new THREE.MeshLambertMaterial({ color: capColors[Math.floor(Math.random() * capColors.length)] })
-    const cap = new THREE.Mesh(capGeom, capMat)
-    cap.position.set(x, 0.3, z)
-    fantasyGroup.add(cap)
-
-    const stipeGeom = new THREE.CylinderGeometry(0.08, 0.1, 0.3, 6)
-    const stipeMat = new THREE.MeshLambertMaterial({ color: '#f5f5dc' })
-    const stipe = new THREE.Mesh(stipeGeom, stipeMat)
-    stipe.position.set(x, 0.15, z)
-    fantasyGroup.add(stipe)
-  }
+  const stemGeom = new THREE.CylinderGeometry(0.05, 0.05, 0.5, 4)
+  const stemMat = new THREE.MeshLambertMaterial({ color: '#228b22' })
+  const stem = new THREE.Mesh(stemGeom, stemMat)
+  stem.position.y = 0.25
+  flower.add(stem)
+
+  const petalGeom = new THREE.SphereGeometry(0.2, 6, 4)
+  const petalMat = new THREE.MeshLambertMaterial({ color })
+  const petal = new THREE.Mesh(petalGeom, petalMat)
+  petal.position.y = 0.55
+  flower.add(petal)
+
+  flower.position.set(x, 0, z)
+  return flower
+}
+
+function createMushroom(x: number, z: number, color: string = DEFAULT_OBJECT_COLORS.mushroom): THREE.Group {
+  const mushroom = new THREE.Group()
+
+  const capGeom = new THREE.SphereGeometry(0.25, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2)
+  const capMat = new THREE.MeshLambertMaterial({ color })
+  const cap = new THREE.Mesh(capGeom, capMat)
+  cap.position.y = 0.3
+  mushroom.add(cap)
+
+  const stipeGeom = new THREE.CylinderGeometry(0.08, 0.1, 0.3, 6)
+  const stipeMat = new THREE.MeshLambertMaterial({ color: '#f5f5dc' })
+  const stipe = new THREE.Mesh(stipeGeom, stipeMat)
+  stipe.position.y = 0.15
+  mushroom.add(stipe)
+
+  mushroom.position.set(x, 0, z)
+  return mushroom
 }
 
 // Fantasy portal (different style - stone archway)
@@ -495,7 +496,6 @@ cyberGroup.add(ground)
 cyberGroup.add(floor)
 cyberGroup.add(platform)
 cyberGroup.add(platformEdge)
-pillars.forEach(p => cyberGroup.add(p))
 // Add floating rings to cyber group
 scene.children.forEach(child => {
   if (child instanceof THREE.Mesh && child.geometry instanceof THREE.TorusGeometry) {
@@ -506,8 +506,100 @@ scene.children.forEach(child => {
 cyberGroup.add(teleportPortal)
 scene.add(cyberGroup)
 
+// Placed objects - rebuilt from the place's xyz.bskyplace.world layout
+const cyberObjects = new THREE.Group()
+cyberGroup.add(cyberObjects)
+const fantasyObjects = new THREE.Group()
+fantasyGroup.add(fantasyObjects)
+
+// Seed for the place shown behind the login screen
+const DEFAULT_WORLD_SEED = 'bskyplace'
+
+function createWorldObject(object: WorldObject): THREE.Group {
+  switch (object.type) {
+    case 'pillar': return createDataPillar(object.x, object.z, object.height, object.color)
+    case 'tree': return createTree(object.x, object.z, object.height, object.color)
+    case 'flower': return createFlower(object.x, object.z, object.color)
+    case 'mushroom': return createMushroom(object.x, object.z, object.color)
+  }
+}
+
+function clearWorldObjects(group: THREE.Group) {
+  group.traverse(child => {
+    if (child instanceof THREE.Mesh) {
+      child.geometry.dispose()
+      ;(child.material as THREE.Material).dispose()
+    }
+  })
+  group.clear()
+}
+
+// Build the place: objects, colors, the portal, and the world you arrive in
+function applyWorldLayout(layout: WorldLayout) {
+  clearWorldObjects(cyberObjects)
+  clearWorldObjects(fantasyObjects)
+  pillars.length = 0
+
+  const place = (group: THREE.Group, objects: WorldObject[]) => {
+    objects.forEach(object => {
+      const mesh = createWorldObject(object)
+      if (object.type === 'pillar') pillars.push(mesh)
+      group.add(mesh)
+    })
+  }
+  place(cyberObjects, layout.cyber.objects)
+  place(fantasyObjects, layout.fantasy.objects)
+
+  groundMaterial.color.set(layout.cyber.groundColor)
+  platformMat.color.set(layout.cyber.accentColor)
+  platformEdgeMat.color.set(layout.cyber.accentColor)
+  grassMat.color.set(layout.fantasy.groundColor)
+  stoneCircleMat.color.set(layout.fantasy.accentColor)
+
+  teleportPortal.position.set(layout.portal.x, 0, layout.portal.z)
+  fantasyPortal.position.set(layout.portal.x, 0, layout.portal.z)
+
+  // Arriving in a place isn't a teleport - no notification
+  switchWorld(layout.theme, false)
+}
+
+// A place's layout from its owner's repo, or their default one
+async function loadWorldLayout(client: BskyAgent, did: string): Promise<WorldLayout> {
+  try {
+    const response = await client.com.atproto.repo.getRecord({
+      repo: did,
+      collection: WORLD_COLLECTION,
+      rkey: WORLD_RKEY
+    })
+    const { layout, issues } = validateWorldRecord(response.data.value, did)
+    if (issues.length > 0) {
+      console.warn(`Repaired world record of ${did}:`, formatValidationIssues(issues))
+    }
+    return layout
+  } catch {
+    return defaultWorldLayout(did)
+  }
+}
+
+async function loadHomeWorld() {
+  const did = agent.session?.did
+  if (!did) return
+  const layout = await loadWorldLayout(agent, did)
+  // Went visiting while it loaded
+  if (visiting) return
+  applyWorldLayout(layout)
+}
+
+// The world's portal and the refresh token stand where a thread's bridge
+// goes, so they're put away (and can't be used) while one is open
+function updateHubProps() {
+  teleportPortal.visible = !thread && currentWorld === 'cyber'
+  fantasyPortal.visible = !thread && currentWorld === 'fantasy'
+  refreshToken.visible = !thread
+}
+
 // Function to switch worlds
-function switchWorld(theme: WorldTheme) {
+function switchWorld(theme: WorldTheme, notify = true) {
   if (currentWorld === theme) return
 
   currentWorld = theme
@@ -518,22 +610,23 @@ function switchWorld(theme: WorldTheme) {
     scene.fog = new THREE.Fog('#0a0a1a', 30, 100)
     cyberGroup.visible = true
     fantasyGroup.visible = false
-    teleportPortal.visible = true
-    fantasyPortal.visible = false
   } else {
     // Switch to fantasy world
     scene.background = new THREE.Color('#87ceeb') // Sky blue
     scene.fog = new THREE.Fog('#a8d8a8', 40, 120)
     cyberGroup.visible = false
     fantasyGroup.visible = true
-    teleportPortal.visible = false
-    fantasyPortal.visible = true
   }
+  updateHubProps()
 
   // Move player to just outside the platform after teleport
   player.position.set(10, 0, 0)
 
-  showNotification(`Teleported to ${theme === 'cyber' ? 'CYBER NET' : 'FANTASY GROVE'}!`)
+  // Other players are per-world - swap rooms
+  peers.clear()
+  joinPresenceRoom()
+
+  if (notify) showNotification(`Teleported to ${theme === 'cyber' ? 'CYBER NET' : 'FANTASY GROVE'}!`)
 }
 
 // Player character group
@@ -555,12 +648,10 @@ playerShadow.position.y = 0.02 // Just above ground to avoid z-fighting
 scene.add(playerShadow)
 
 // Build player avatar
-function createMaterial(color: string | number): THREE.MeshLambertMaterial {
-  return new THREE.MeshLambertMaterial({
-    color: new THREE.Color(color),
-    flatShading: true
-  })
-}
+// Drives the player's face - recreated with the avatar
+let playerFace: FaceAnimator | null = null
+let playerModel: THREE.Group | null = null
+const PLAYER_MODEL_Y = 1.5 // Head height - puts the shoes on the ground
 
 function buildPlayerAvatar(config: AvatarConfig) {
   // Clear existing
@@ -568,84 +659,11 @@ function buildPlayerAvatar(config: AvatarConfig) {
     player.remove(player.children[0])
   }
 
-  const avatarGroup = new THREE.Group()
-  avatarGroup.position.y = 1.2 // Head height
-  avatarGroup.scale.setScalar(0.6) // Smaller for world scale
-
-  // Head
-  let headGeom: THREE.BufferGeometry
-  switch (config.headShape) {
-    case 'oval':
-      headGeom = new THREE.IcosahedronGeometry(1, 1)
-      headGeom.scale(0.85, 1.1, 0.9)
-      break
-    case 'square':
-      headGeom = new THREE.BoxGeometry(1.6, 1.8, 1.5, 2, 2, 2)
-      break
-    default:
-      headGeom = new THREE.IcosahedronGeometry(1, 1)
-  }
-  const head = new THREE.Mesh(headGeom, createMaterial(config.headColor))
-  head.castShadow = true
-  avatarGroup.add(head)
-
-  // Simple body
-  const bodyGeom = new THREE.CapsuleGeometry(0.4, 0.8, 4, 8)
-  const body = new THREE.Mesh(bodyGeom, createMaterial(config.headColor))
-  body.position.y = -1.4
-  body.castShadow = true
-  avatarGroup.add(body)
-
-  // Hair (simplified)
-  if (config.hairStyle !== 'none') {
-    const hairMat = createMaterial(config.hairColor)
-    if (config.hairStyle === 'spiky') {
-      const spikeGeom = new THREE.ConeGeometry(0.15, 0.5, 4)
-      const positions = [
-        { x: 0, y: 1.1, z: 0 },
-        { x: 0.3, y: 1.0, z: 0.1 },
-        { x: -0.3, y: 1.0, z: 0.1 },
-      ]
-      positions.forEach(pos => {
-        const spike = new THREE.Mesh(spikeGeom, hairMat)
-        spike.position.set(pos.x, pos.y, pos.z)
-        spike.castShadow = true
-        avatarGroup.add(spike)
-      })
-    } else {
-      const hairGeom = new THREE.SphereGeometry(1.05, 8, 6, 0, Math.PI * 2, 0, Math.PI * 0.45)
-      const hair = new THREE.Mesh(hairGeom, hairMat)
-      hair.position.y = 0.15
-      hair.castShadow = true
-      avatarGroup.add(hair)
-    }
-  }
-
-  // Eyes (simple dots)
-  const eyeMat = createMaterial(config.eyeColor)
-  const eyeGeom = new THREE.SphereGeometry(0.08, 8, 6)
-  const leftEye = new THREE.Mesh(eyeGeom, eyeMat)
-  leftEye.position.set(-0.3, 0.15, 0.85)
-  const rightEye = new THREE.Mesh(eyeGeom, eyeMat)
-  rightEye.position.set(0.3, 0.15, 0.85)
-  avatarGroup.add(leftEye, rightEye)
-
-  // Blush
-  if (config.hasBlush) {
-    const blushMat = new THREE.MeshLambertMaterial({
-      color: 0xffaaaa,
-      transparent: true,
-      opacity: 0.6
-    })
-    const blushGeom = new THREE.CircleGeometry(0.1, 6)
-    const leftBlush = new THREE.Mesh(blushGeom, blushMat)
-    leftBlush.position.set(-0.5, -0.05, 0.75)
-    leftBlush.rotation.y = -0.4
-    const rightBlush = new THREE.Mesh(blushGeom, blushMat)
-    rightBlush.position.set(0.5, -0.05, 0.75)
-    rightBlush.rotation.y = 0.4
-    avatarGroup.add(leftBlush, rightBlush)
-  }
+  // Same avatar as bskatar, outfit included, low LOD and smaller for world scale
+  const avatarGroup = createAvatar(config, { scale: 0.6, lod: 'low', castShadow: true, body: true })
+  avatarGroup.position.y = PLAYER_MODEL_Y
+  playerFace = createFaceAnimator(avatarGroup, { idleBlink: true })
+  playerModel = avatarGroup
 
   player.add(avatarGroup)
 }
@@ -677,6 +695,9 @@ const playerDirection = new THREE.Vector3()
 
 // Input handling
 document.addEventListener('keydown', (e) => {
+  // Typing in the chat box, composer or login form isn't movement
+  if (['INPUT', 'TEXTAREA'].includes((e.target as HTMLElement).tagName)) return
+
   switch (e.code) {
     case 'KeyW': case 'ArrowUp': keys.forward = true; break
     case 'KeyS': case 'ArrowDown': keys.backward = true; break
@@ -695,6 +716,28 @@ document.addEventListener('keydown', (e) => {
         showPostViewer(closestPost)
       }
       break
+    case 'Digit1': case 'Digit2': case 'Digit3': case 'Digit4':
+      // Expressions: happy, sad, surprised, wink
+      playerFace?.play(EXPRESSION_PRESETS[Number(e.code.slice(-1)) - 1])
+      break
+    case 'KeyQ':
+      toggleEmoteWheel()
+      break
+    case 'KeyT':
+      // Don't type the T into the box
+      e.preventDefault()
+      openChatInput()
+      break
+    case 'KeyC':
+      e.preventDefault()
+      openComposer()
+      break
+    case 'KeyB':
+      closeThread()
+      break
+    case 'Escape':
+      toggleEmoteWheel(false)
+      break
   }
 })
 
@@ -708,6 +751,364 @@ document.addEventListener('keyup', (e) => {
   }
 })
 
+// Emotes + bubbles - everything above the player's head lives in the 3D
+// scene, so it goes through the low-res pipeline with the rest of the world
+let activeEmote: { emote: Emote; time: number } | null = null
+let playerBubble: { sprite: THREE.Sprite; expiresIn: number } | null = null
+const BUBBLE_HEIGHT = 2.8 // Above the head, clear of hats
+const CHAT_MAX_LENGTH = 60
+
+function showPlayerBubble(content: BubbleContent, seconds: number) {
+  if (playerBubble) disposeBubble(playerBubble.sprite)
+  const sprite = createBubble(content, BUBBLE_STYLES[currentWorld])
+  sprite.position.y = BUBBLE_HEIGHT
+  player.add(sprite)
+  playerBubble = { sprite, expiresIn: seconds }
+}
+
+function playEmote(emote: Emote) {
+  const info = EMOTES[emote]
+  if (playerModel) resetEmotePose(playerModel, PLAYER_MODEL_Y)
+  activeEmote = { emote, time: 0 }
+  playerFace?.play(info.expression, info.duration)
+  showPlayerBubble(info.bubble, info.duration + 0.5)
+  sendPresence({ type: 'emote', emote })
+}
+
+function updateEmotes(delta: number) {
+  if (activeEmote && playerModel) {
+    activeEmote.time += delta
+    if (activeEmote.time >= EMOTES[activeEmote.emote].duration) {
+      resetEmotePose(playerModel, PLAYER_MODEL_Y)
+      activeEmote = null
+    } else {
+      poseEmote(playerModel, activeEmote.emote, activeEmote.time, PLAYER_MODEL_Y)
+    }
+  }
+
+  if (playerBubble) {
+    playerBubble.expiresIn -= delta
+    if (playerBubble.expiresIn <= 0) {
+      disposeBubble(playerBubble.sprite)
+      playerBubble = null
+    } else {
+      // Keep one bubble pixel = one low-res pixel as the zoom changes
+      updateBubbleScale(playerBubble.sprite, frustumSize / RENDER_HEIGHT)
+    }
+  }
+}
+
+function toggleEmoteWheel(show?: boolean) {
+  const wheel = document.getElementById('emote-wheel')
+  if (!wheel || !isLoggedIn) return
+  const visible = show ?? wheel.style.display === 'none'
+  wheel.style.display = visible ? 'block' : 'none'
+}
+
+function openChatInput() {
+  const chat = document.getElementById('chat-bar')
+  if (!chat || !isLoggedIn) return
+  chat.style.display = 'flex'
+  ;(document.getElementById('chat-input') as HTMLInputElement).focus()
+}
+
+// Multiplayer presence - other logged-in players in the same world, via
+// the relay in relay/. Without one running the world stays single-player.
+const PRESENCE_URL = import.meta.env.VITE_PRESENCE_URL ?? 'ws://localhost:8787'
+// The relay's DID - service-auth tokens are minted for it
+const PRESENCE_DID = import.meta.env.VITE_PRESENCE_DID ?? 'did:web:localhost'
+const peers = createPeerManager(scene)
+let presence: PresenceTransport | null = null
+// Set once the relay has verified who we are
+let presenceReady = false
+let lastPresenceSend = 0
+let lastSentState: PresenceState | null = null
+
+function currentPresenceState(): PresenceState {
+  return {
+    x: player.position.x,
+    y: player.position.y,
+    z: player.position.z,
+    rotation: player.rotation.y
+  }
+}
+
+function sendPresence(message: ClientMessage) {
+  if (presence && presenceReady) presence.send(message)
+}
+
+function joinPresenceRoom() {
+  lastSentState = currentPresenceState()
+  sendPresence({
+    type: 'join',
+    world: currentWorld,
+    // Stamped with the schema version so peers migrate it correctly
+    avatar: createAvatarRecord(playerAvatar),
+    state: lastSentState
+  })
+}
+
+function handlePresenceMessage(message: ServerMessage) {
+  switch (message.type) {
+    case 'authed':
+      presenceReady = true
+      joinPresenceRoom()
+      break
+    case 'welcome': peers.reset(message.peers); break
+    case 'peer-joined': peers.add(message.peer); break
+    case 'peer-left': peers.remove(message.id); break
+    case 'peer-state': peers.setState(message.id, message.state); break
+    case 'peer-avatar': peers.setAvatar(message.id, message.avatar); break
+    case 'peer-emote': peers.playEmote(message.id, message.emote); break
+    case 'error':
+      console.warn('Presence relay:', message.message)
+      if (message.code === 'room-full' || message.code === 'unauthorized') {
+        showNotification(message.message)
+      }
+      break
+  }
+}
+
+async function startPresence() {
+  if (presence || !isLoggedIn) return
+  let token: string
+  try {
+    // Proves our DID to the relay without handing it our session
+    const response = await agent.com.atproto.server.getServiceAuth({ aud: PRESENCE_DID, lxm: PRESENCE_LXM })
+    token = response.data.token
+    presence = await connectWebSocketTransport(PRESENCE_URL)
+  } catch (err) {
+    console.warn('Presence relay unavailable, playing solo:', err)
+    return
+  }
+  presence.onmessage = handlePresenceMessage
+  presence.onclose = () => {
+    if (presenceReady) showNotification('Lost connection to other players')
+    presence = null
+    presenceReady = false
+    peers.clear()
+  }
+  presence.send({ type: 'auth', token })
+}
+
+function stopPresence() {
+  presence?.close()
+  presence = null
+  presenceReady = false
+  peers.clear()
+}
+
+// Throttled, and only when something moved
+function sendPresenceState(now: number) {
+  if (!presenceReady || now - lastPresenceSend < PRESENCE_SEND_INTERVAL_MS) return
+  const state = currentPresenceState()
+  if (lastSentState &&
+    state.x === lastSentState.x && state.y === lastSentState.y &&
+    state.z === lastSentState.z && state.rotation === lastSentState.rotation) return
+  sendPresence({ type: 'state', state })
+  lastSentState = state
+  lastPresenceSend = now
+}
+
+// Visiting - someone else's place shows their posts, with their bskatar
+// standing on the platform as host
+let visiting: { did: string; handle: string } | null = null
+let host: {
+  group: THREE.Group
+  face: FaceAnimator
+  handle: string
+  nameTag: THREE.Sprite
+  world: WorldTheme
+  greeted: boolean
+} | null = null
+const HOST_POSITION = new THREE.Vector3(5, 0, 0) // Facing where players arrive
+const HOST_TAG_HEIGHT = 3.4
+
+function removeHost() {
+  if (!host) return
+  disposeBubble(host.nameTag)
+  // The name tag is a sprite, so this only frees the model
+  disposeAvatar(host.group)
+  host = null
+}
+
+function showHost(config: AvatarConfig, handle: string) {
+  removeHost()
+  const group = new THREE.Group()
+  const model = createAvatar(config, { scale: 0.6, lod: 'low', castShadow: true, body: true })
+  model.position.y = PLAYER_MODEL_Y
+  group.add(model)
+  group.position.copy(HOST_POSITION)
+  const nameTag = createNameTag(`@${handle}`, BUBBLE_STYLES[currentWorld])
+  nameTag.position.y = HOST_TAG_HEIGHT
+  group.add(nameTag)
+  scene.add(group)
+  host = {
+    group,
+    face: createFaceAnimator(model, { idleBlink: true }),
+    handle,
+    nameTag,
+    world: currentWorld,
+    greeted: false
+  }
+}
+
+function updateHost(delta: number) {
+  if (!host) return
+  host.face.update(delta)
+
+  // Stand on the platform (cyber 0.3, fantasy 0.5 high), turned to the visitor
+  host.group.position.y = currentWorld === 'cyber' ? 0.3 : 0.5
+  const dx = player.position.x - host.group.position.x
+  const dz = player.position.z - host.group.position.z
+  host.group.rotation.y = Math.atan2(dx, dz)
+
+  // Smile the first time the visitor walks up
+  if (!host.greeted && Math.sqrt(dx * dx + dz * dz) < INTERACT_DISTANCE) {
+    host.greeted = true
+    host.face.play('happy')
+  }
+
+  if (host.world !== currentWorld) {
+    disposeBubble(host.nameTag)
+    host.nameTag = createNameTag(`@${host.handle}`, BUBBLE_STYLES[currentWorld])
+    host.nameTag.position.y = HOST_TAG_HEIGHT
+    host.group.add(host.nameTag)
+    host.world = currentWorld
+  }
+  updateBubbleScale(host.nameTag, frustumSize / RENDER_HEIGHT)
+}
+
+function updatePlaceLabel() {
+  const place = visiting ? `@${visiting.handle}'s place` : 'your timeline'
+  document.getElementById('place-label')!.textContent = thread ? `${place} › thread` : place
+  document.getElementById('home-btn')!.style.display = visiting ? 'inline-block' : 'none'
+  document.getElementById('timeline-btn')!.style.display = thread ? 'inline-block' : 'none'
+}
+
+async function visitPlace(input: string) {
+  const handle = input.trim().replace(/^@/, '').toLowerCase()
+  if (!handle) return
+
+  let did: string
+  try {
+    did = (await agent.resolveHandle({ handle })).data.did
+  } catch {
+    showNotification(`Could not find @${handle}`)
+    return
+  }
+  if (did === agent.session?.did) {
+    goHome()
+    return
+  }
+
+  visiting = { did, handle }
+  removeHost()
+  updatePlaceLabel()
+  player.position.set(10, 0, 0)
+
+  // Their place and bskatar live in their own repo - read them straight
+  // from their PDS
+  let owner: BskyAgent | null = null
+  try {
+    owner = new BskyAgent({ service: await resolvePds(did) })
+  } catch (err) {
+    console.warn(`Could not find the PDS of ${did}:`, err)
+  }
+  const layout = owner ? await loadWorldLayout(owner, did) : defaultWorldLayout(did)
+  let config: AvatarConfig
+  try {
+    if (!owner) throw new Error('No PDS')
+    config = await readAvatarFromRepo(owner, did)
+  } catch {
+    config = defaultAvatarForDid(did)
+  }
+
+  // Left (or went somewhere else) while it loaded
+  if (visiting?.did !== did) return
+  applyWorldLayout(layout)
+  showHost(config, handle)
+  await fetchPosts()
+}
+
+async function goHome() {
+  visiting = null
+  removeHost()
+  updatePlaceLabel()
+  player.position.set(10, 0, 0)
+  await loadHomeWorld()
+  fetchPosts()
+}
+
+// Composer - a new post becomes a data panel right where you stand
+function openComposer() {
+  const composer = document.getElementById('composer')
+  if (!composer || !isLoggedIn) return
+  const langs = document.getElementById('composer-langs') as HTMLInputElement
+  if (!langs.value) langs.value = defaultLangs()
+  composer.style.display = 'block'
+  ;(document.getElementById('composer-text') as HTMLTextAreaElement).focus()
+  updateComposerInfo()
+}
+
+function closeComposer() {
+  ;(document.getElementById('composer-text') as HTMLTextAreaElement).value = ''
+  document.getElementById('composer')!.style.display = 'none'
+}
+
+function updateComposerInfo() {
+  const info = inspectDraft((document.getElementById('composer-text') as HTMLTextAreaElement).value)
+  renderDraftCount('composer-count', info)
+  // What will become links when published
+  document.getElementById('composer-facets')!.textContent = [...info.mentions, ...info.links, ...info.tags].join(' · ')
+  ;(document.getElementById('composer-publish') as HTMLButtonElement).disabled = info.graphemes === 0 || info.remaining < 0
+}
+
+async function publishPost() {
+  const text = (document.getElementById('composer-text') as HTMLTextAreaElement).value
+  const publish = document.getElementById('composer-publish') as HTMLButtonElement
+  const draft = inspectDraft(text)
+  if (publish.disabled || draft.graphemes === 0 || draft.remaining < 0) return
+
+  const langs = parseLangs((document.getElementById('composer-langs') as HTMLInputElement).value)
+  if (!langs) {
+    showNotification(`Languages: up to ${MAX_POST_LANGS} tags like en or pt-BR, comma separated`)
+    return
+  }
+
+  publish.disabled = true
+  try {
+    const rt = await prepareRichText(agent, text)
+    const createdAt = new Date().toISOString()
+    const { uri, cid } = await agent.post({ text: rt.text, facets: rt.facets, langs, createdAt })
+
+    const post: Post = {
+      uri,
+      cid,
+      author: { handle: agent.session?.handle ?? userHandle },
+      text: rt.text,
+      facets: rt.facets,
+      langs,
+      createdAt,
+      counts: { replies: 0, reposts: 0, quotes: 0, likes: 0 },
+      viewer: {}
+    }
+    post.mesh = createPostMesh(post)
+    // Just in front of the player
+    post.mesh.position.x = player.position.x + Math.sin(player.rotation.y) * 2
+    post.mesh.position.z = player.position.z + Math.cos(player.rotation.y) * 2
+    scene.add(post.mesh)
+    posts.push(post)
+
+    closeComposer()
+    showNotification('Posted!')
+  } catch (err: any) {
+    showNotification('Post failed: ' + (err.message || 'Unknown error'))
+  } finally {
+    updateComposerInfo()
+  }
+}
+
 // Scroll wheel zoom
 document.addEventListener('wheel', (e) => {
   e.preventDefault()
@@ -718,7 +1119,7 @@ document.addEventListener('wheel', (e) => {
 // No mouse camera rotation in isometric mode - camera is fixed
 
 // Create post visualization - MMBN style data panels
-function createPostMesh(post: Post, index: number): THREE.Group {
+function createPostMesh(post: Post): THREE.Group {
   const group = new THREE.Group()
 
   // Random position within the playable area (outside platform, inside boundary)
@@ -740,6 +1141,7 @@ function createPostMesh(post: Post, index: number): THREE.Group {
     opacity: 0.8
   })
   const frame = new THREE.Mesh(frameGeom, frameMat)
+  frame.name = 'frame'
   group.add(frame)
 
   // Inner panel - solid with glow
@@ -758,6 +1160,7 @@ function createPostMesh(post: Post, index: number): THREE.Group {
   const bar = new THREE.Mesh(barGeom, barMat)
   bar.position.y = 0.7
   bar.position.z = 0.05
+  bar.name = 'bar'
   group.add(bar)
 
   // Corner accents
@@ -777,11 +1180,56 @@ function createPostMesh(post: Post, index: number): THREE.Group {
 
   // Floating data indicator
   const indicatorGeom = new THREE.OctahedronGeometry(0.2, 0)
-  const indicatorMat = new THREE.MeshBasicMaterial({ color: color })
+  const indicatorMat = new THREE.MeshBasicMaterial({ color: post.viewer.like ? LIKED_COLOR : color })
   const indicator = new THREE.Mesh(indicatorGeom, indicatorMat)
   indicator.position.set(0, 1.3, 0)
+  indicator.name = 'indicator'
   group.add(indicator)
 
+  // Handle, avatar and the start of the text on both faces of the panel,
+  // blank until the texture is drawn
+  const thumbnail = embedThumbnail(post.embed)
+  const faceGeom = new THREE.PlaneGeometry(PANEL_FACE_WIDTH, PANEL_FACE_HEIGHT)
+  const faceMat = new THREE.MeshBasicMaterial({ alphaTest: 0.5, visible: false })
+  for (const side of [1, -1]) {
+    const face = new THREE.Mesh(faceGeom, faceMat)
+    face.position.set(0, -0.05, 0.055 * side)
+    face.rotation.y = side === 1 ? 0 : Math.PI
+    group.add(face)
+  }
+  loadPanelTexture({
+    key: post.uri,
+    handle: post.author.handle,
+    text: post.text,
+    avatar: post.author.avatar,
+    color,
+    mediaColumn: !!thumbnail
+  }).then(texture => {
+    faceMat.map = texture
+    faceMat.visible = true
+    faceMat.needsUpdate = true
+  })
+
+  // Embed hints - an image thumbnail on both faces, and a second frame
+  // stacked behind for quote posts
+  if (thumbnail) {
+    const thumbGeom = new THREE.PlaneGeometry(1.0, 0.75)
+    const thumbMat = new THREE.MeshBasicMaterial({ map: loadThumbnail(thumbnail) })
+    for (const side of [1, -1]) {
+      const thumb = new THREE.Mesh(thumbGeom, thumbMat)
+      thumb.position.set(0.7 * side, -0.25, 0.07 * side)
+      thumb.rotation.y = side === 1 ? 0 : Math.PI
+      group.add(thumb)
+    }
+  }
+  if (post.embed?.type === 'record' || post.embed?.type === 'recordWithMedia') {
+    const quoteGeom = new THREE.BoxGeometry(2.4, 1.4, 0.1)
+    const quoteMat = new THREE.MeshBasicMaterial({ color, wireframe: true, transparent: true, opacity: 0.4 })
+    const quote = new THREE.Mesh(quoteGeom, quoteMat)
+    quote.position.set(0.4, 0.4, -0.35)
+    group.add(quote)
+  }
+
   // Store post data for interaction
   group.userData = { post, color, baseColor: color }
 
@@ -791,6 +1239,23 @@ function createPostMesh(post: Post, index: number): THREE.Group {
   return group
 }
 
+// Embed thumbnails, loaded once per URL. Nearest filtering - they end up
+// in the low-res target anyway.
+const textureLoader = new THREE.TextureLoader().setCrossOrigin('anonymous')
+const thumbnailCache = new Map<string, THREE.Texture>()
+
+function loadThumbnail(url: string): THREE.Texture {
+  let texture = thumbnailCache.get(url)
+  if (!texture) {
+    texture = textureLoader.load(url, undefined, undefined, () => console.warn('Could not load thumbnail', url))
+    texture.minFilter = THREE.NearestFilter
+    texture.magFilter = THREE.NearestFilter
+    texture.colorSpace = THREE.SRGBColorSpace
+    thumbnailCache.set(url, texture)
+  }
+  return texture
+}
+
 function stringToCyberColor(str: string): string {
   let hash = 0
   for (let i = 0; i < str.length; i++) {
@@ -801,74 +1266,122 @@ function stringToCyberColor(str: string): string {
   return cyberColors[Math.abs(hash) % cyberColors.length]
 }
 
+function toPost(view: AppBskyFeedDefs.PostView): Post {
+  // The appview hands records through as-is - a malformed one shows empty
+  const result = AppBskyFeedPost.validateRecord(view.record)
+  const record: Partial<AppBskyFeedPost.Record> = result.success ? result.value : {}
+  return {
+    uri: view.uri,
+    cid: view.cid,
+    author: {
+      handle: view.author.handle,
+      displayName: view.author.displayName,
+      avatar: view.author.avatar
+    },
+    text: record.text ?? '',
+    facets: record.facets,
+    langs: record.langs,
+    embed: readEmbed(view.embed),
+    createdAt: view.indexedAt,
+    replyRoot: record.reply && { uri: record.reply.root.uri, cid: record.reply.root.cid },
+    counts: {
+      replies: view.replyCount ?? 0,
+      reposts: view.repostCount ?? 0,
+      quotes: view.quoteCount ?? 0,
+      likes: view.likeCount ?? 0
+    },
+    viewer: {
+      like: view.viewer?.like,
+      repost: view.viewer?.repost
+    }
+  }
+}
+
 // Fetch and display posts
 async function fetchPosts() {
   if (!isLoggedIn) return
 
+  const place = visiting?.did ?? null
   try {
-    const timeline = await agent.getTimeline({ limit: 20 })
+    // A visited place shows its owner's posts, home shows your timeline
+    const feed = place
+      ? (await agent.getAuthorFeed({ actor: place, limit: 20 })).data.feed
+      : (await agent.getTimeline({ limit: 20 })).data.feed
+
+    // Went home or somewhere else while it loaded - that fetch takes over
+    if ((visiting?.did ?? null) !== place) return
+
+    // A refresh or another place replaces an open thread too
+    closeThread()
 
     // Remove old post meshes
     posts.forEach(p => {
       if (p.mesh) scene.remove(p.mesh)
     })
 
-    posts = timeline.data.feed.map((item, index) => {
-      const post: Post = {
-        uri: item.post.uri,
-        author: {
-          handle: item.post.author.handle,
-          displayName: item.post.author.displayName,
-          avatar: item.post.author.avatar
-        },
-        text: (item.post.record as any).text || '',
-        createdAt: item.post.indexedAt
-      }
-
-      post.mesh = createPostMesh(post, index)
+    posts = feed.map((item) => {
+      const post = toPost(item.post)
+      post.mesh = createPostMesh(post)
       scene.add(post.mesh)
 
       return post
     })
 
-    showNotification(`Loaded ${posts.length} posts from your timeline`)
+    showNotification(visiting
+      ? `Loaded ${posts.length} posts from @${visiting.handle}'s place`
+      : `Loaded ${posts.length} posts from your timeline`)
   } catch (err) {
     console.error('Failed to fetch posts:', err)
   }
 }
 
+// Read a bskatar from a repo, wearing its active outfit - throws if there's none
+async function readAvatarFromRepo(client: BskyAgent, repo: string): Promise<AvatarConfig> {
+  const response = await client.com.atproto.repo.getRecord({
+    repo,
+    collection: AVATAR_COLLECTION,
+    rkey: AVATAR_RKEY
+  })
+
+  const { config, issues, fromVersion, isNewer } = validateAvatarRecord(response.data.value)
+  if (issues.length > 0) {
+    console.warn(`Repaired bskatar record (v${fromVersion}${isNewer ? ', newer than this build' : ''}):`, formatValidationIssues(issues))
+  }
+
+  // Wear the active outfit if one is set - 'self' holds a copy as fallback
+  const presetKey = getActivePresetKey(response.data.value)
+  if (presetKey) {
+    try {
+      const preset = await client.com.atproto.repo.getRecord({
+        repo,
+        collection: AVATAR_PRESET_COLLECTION,
+        rkey: presetKey
+      })
+      return readAvatarPreset(presetKey, preset.data.value).config
+    } catch {
+      console.log('Active bskatar outfit not found, using saved avatar')
+    }
+  }
+  return config
+}
+
 // Load avatar from Bluesky
 async function loadAvatarFromBluesky() {
   if (!isLoggedIn) return
 
-  try {
-    const repo = agent.session?.did
-    if (!repo) return
-
-    const response = await agent.com.atproto.repo.getRecord({
-      repo,
-      collection: 'xyz.bskatar.avatar',
-      rkey: 'self'
-    })
-
-    const record = response.data.value as any
-    playerAvatar = {
-      headShape: record.headShape || 'round',
-      headColor: record.headColor || '#ffccaa',
-      hairStyle: record.hairStyle || 'short',
-      hairColor: record.hairColor || '#4a3728',
-      eyeStyle: record.eyeStyle || 'dots',
-      eyeColor: record.eyeColor || '#333333',
-      eyebrowStyle: record.eyebrowStyle || 'normal',
-      noseStyle: record.noseStyle || 'small',
-      mouthStyle: record.mouthStyle || 'smile',
-      hasBlush: record.hasBlush ?? true
-    }
+  const repo = agent.session?.did
+  if (!repo) return
 
+  try {
+    playerAvatar = await readAvatarFromRepo(agent, repo)
     buildPlayerAvatar(playerAvatar)
+    sendPresence({ type: 'avatar', avatar: createAvatarRecord(playerAvatar) })
     showNotification('Loaded your bskatar!')
   } catch (err) {
-    console.log('No bskatar found, using default avatar')
+    // Everyone without a bskatar gets their own look instead of the same default
+    console.log('No bskatar found, using default avatar for', repo)
+    playerAvatar = defaultAvatarForDid(repo)
+    buildPlayerAvatar(playerAvatar)
   }
 }
 
@@ -896,7 +1409,9 @@ async function tryResumeSession(): Promise<boolean> {
     userHandle = session.handle
     updateUI()
     await loadAvatarFromBluesky()
+    await loadHomeWorld()
     await fetchPosts()
+    startPresence()
     showNotification('Welcome back, @' + userHandle)
     return true
   } catch (err) {
@@ -915,7 +1430,9 @@ async function login(handle: string, password: string): Promise<boolean> {
     saveSession()
     updateUI()
     await loadAvatarFromBluesky()
+    await loadHomeWorld()
     await fetchPosts()
+    startPresence()
     return true
   } catch (err: any) {
     showNotification('Login failed: ' + (err.message || 'Unknown error'))
@@ -953,12 +1470,54 @@ function createUI() {
     </div>
     <div class="hud" id="hud" style="display: none;">
       <div class="user-info">@<span id="user-handle"></span> <button id="logout-btn">logout</button></div>
-      <div class="controls-hint">WASD move • Space jump • Shift sprint • Scroll zoom • E interact</div>
+      <div class="visit-bar">
+        <span id="place-label">your timeline</span>
+        <input type="text" id="visit-input" placeholder="visit handle...">
+        <button id="visit-btn">go</button>
+        <button id="home-btn" style="display: none;">home</button>
+        <button id="timeline-btn" style="display: none;">timeline</button>
+      </div>
+      <div class="controls-hint">WASD move • Space jump • Shift sprint • Scroll zoom • E interact • 1-4 expressions • Q emote • T chat • C post • B leave thread</div>
+    </div>
+    <div class="emote-wheel" id="emote-wheel" style="display: none;">
+      ${EMOTE_ORDER.map((emote, i) => `<button class="emote-option emote-${i}" data-emote="${emote}">${EMOTES[emote].label}</button>`).join('')}
+      <div class="emote-center">EMOTE</div>
+    </div>
+    <div class="chat-bar" id="chat-bar" style="display: none;">
+      <input type="text" id="chat-input" maxlength="${CHAT_MAX_LENGTH}" placeholder="Say something... (Enter to send)">
+    </div>
+    <div class="composer" id="composer" style="display: none;">
+      <textarea id="composer-text" rows="5" placeholder="Drop a data panel here..."></textarea>
+      <div class="composer-facets" id="composer-facets"></div>
+      <div class="composer-row">
+        <label class="composer-langs">lang <input type="text" id="composer-langs" placeholder="en"></label>
+        <span class="composer-count" id="composer-count"></span>
+      </div>
+      <div class="composer-row">
+        <button id="composer-cancel">cancel</button>
+        <button id="composer-publish">publish</button>
+      </div>
     </div>
     <div class="post-viewer" id="post-viewer" style="display: none;">
       <div class="post-content">
         <div class="post-author" id="post-author"></div>
         <div class="post-text" id="post-text"></div>
+        <div class="post-embed" id="post-embed"></div>
+        <div class="post-actions">
+          <button class="post-action" data-action="reply" title="Reply">↩ <span class="count"></span></button>
+          <button class="post-action" data-action="repost" title="Repost">⟲ <span class="count"></span></button>
+          <button class="post-action" data-action="quote" title="Quote">❝ <span class="count"></span></button>
+          <button class="post-action" data-action="like" title="Like">♥ <span class="count"></span></button>
+          <button class="post-action" id="post-thread" title="Walk the thread">⑂ thread</button>
+        </div>
+        <div class="post-compose" id="post-compose" style="display: none;">
+          <div class="compose-label" id="compose-label"></div>
+          <textarea id="compose-text" rows="3"></textarea>
+          <div class="composer-row">
+            <button id="compose-send">send</button>
+            <span class="composer-count" id="compose-count"></span>
+          </div>
+        </div>
       </div>
       <button id="close-post">×</button>
     </div>
@@ -985,16 +1544,89 @@ function createUI() {
     btn.textContent = 'Enter'
   })
 
+  // Emote wheel
+  document.querySelectorAll('[data-emote]').forEach(btn => {
+    btn.addEventListener('click', (e) => {
+      e.stopPropagation()
+      playEmote((btn as HTMLElement).dataset.emote as Emote)
+      toggleEmoteWheel(false)
+    })
+  })
+
+  // Quick chat - Enter shows the bubble, Escape cancels
+  const chatInput = document.getElementById('chat-input') as HTMLInputElement
+  chatInput.addEventListener('keydown', (e) => {
+    if (e.key !== 'Enter' && e.key !== 'Escape') return
+    const text = chatInput.value.trim()
+    if (e.key === 'Enter' && text) {
+      showPlayerBubble({ text }, 4 + text.length * 0.05)
+    }
+    chatInput.value = ''
+    chatInput.blur()
+    document.getElementById('chat-bar')!.style.display = 'none'
+  })
+
+  // Visit another user's place
+  const visitInput = document.getElementById('visit-input') as HTMLInputElement
+  const visit = () => {
+    visitPlace(visitInput.value)
+    visitInput.value = ''
+    visitInput.blur()
+  }
+  document.getElementById('visit-btn')?.addEventListener('click', visit)
+  visitInput.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') visit()
+  })
+  document.getElementById('home-btn')?.addEventListener('click', goHome)
+  document.getElementById('timeline-btn')?.addEventListener('click', closeThread)
+
+  // Post actions
+  document.querySelectorAll('[data-action]').forEach(btn => {
+    btn.addEventListener('click', () => {
+      if (!viewedPost) return
+      switch ((btn as HTMLElement).dataset.action as PostAction) {
+        case 'like': toggleLike(viewedPost); break
+        case 'repost': toggleRepost(viewedPost); break
+        case 'reply': openPostCompose('reply'); break
+        case 'quote': openPostCompose('quote'); break
+      }
+    })
+  })
+
+  document.getElementById('post-thread')?.addEventListener('click', () => {
+    if (viewedPost) openThread(viewedPost)
+  })
+
+  document.getElementById('compose-send')?.addEventListener('click', sendPostCompose)
+  document.getElementById('compose-text')?.addEventListener('input', updatePostComposeCount)
+
+  // Composer
+  const composerText = document.getElementById('composer-text') as HTMLTextAreaElement
+  composerText.addEventListener('input', updateComposerInfo)
+  composerText.addEventListener('keydown', (e) => {
+    if (e.key === 'Escape') closeComposer()
+    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) publishPost()
+  })
+  document.getElementById('composer-cancel')?.addEventListener('click', closeComposer)
+  document.getElementById('composer-publish')?.addEventListener('click', publishPost)
+
   // Close post viewer
   document.getElementById('close-post')?.addEventListener('click', () => {
     document.getElementById('post-viewer')!.style.display = 'none'
+    viewedPost = null
   })
 
   // Logout handler
   document.getElementById('logout-btn')?.addEventListener('click', () => {
     clearSession()
+    stopPresence()
     isLoggedIn = false
     userHandle = ''
+    visiting = null
+    removeHost()
+    closeThread()
+    updatePlaceLabel()
+    applyWorldLayout(defaultWorldLayout(DEFAULT_WORLD_SEED))
     // Remove posts from scene
     posts.forEach(p => {
       if (p.mesh) scene.remove(p.mesh)
@@ -1017,6 +1649,7 @@ function updateUI() {
 }
 
 createUI()
+applyWorldLayout(defaultWorldLayout(DEFAULT_WORLD_SEED))
 
 // Try to resume saved session on load
 tryResumeSession()
@@ -1026,7 +1659,8 @@ const raycaster = new THREE.Raycaster()
 const mouse = new THREE.Vector2()
 
 document.addEventListener('click', (e) => {
-  if (!isLoggedIn) return
+  // Clicks on the HUD or post viewer aren't aimed at the world
+  if (!isLoggedIn || e.target !== renderer.domElement) return
 
   mouse.x = (e.clientX / window.innerWidth) * 2 - 1
   mouse.y = -(e.clientY / window.innerHeight) * 2 + 1
@@ -1034,7 +1668,7 @@ document.addEventListener('click', (e) => {
   raycaster.setFromCamera(mouse, camera)
 
   // Check refresh token first
-  const tokenIntersects = raycaster.intersectObject(refreshToken, true)
+  const tokenIntersects = refreshToken.visible ? raycaster.intersectObject(refreshToken, true) : []
   if (tokenIntersects.length > 0) {
     // Clicked the refresh token!
     fetchPosts()
@@ -1064,11 +1698,209 @@ function showPostViewer(post: Post) {
   const text = document.getElementById('post-text')!
 
   author.textContent = `@${post.author.handle}${post.author.displayName ? ` (${post.author.displayName})` : ''}`
-  text.textContent = post.text
+  // Mentions take you to that person's place
+  renderRichText(text, post.text, post.facets, (handle) => {
+    viewer.style.display = 'none'
+    viewedPost = null
+    visitPlace(handle)
+  })
+  renderEmbed(document.getElementById('post-embed')!, post.embed)
 
+  if (viewedPost !== post) closePostCompose()
+  viewedPost = post
+  updatePostActions(post)
   viewer.style.display = 'block'
 }
 
+// Post actions - like, repost, reply and quote from the viewer
+let viewedPost: Post | null = null
+let composeMode: 'reply' | 'quote' | null = null
+let postActionBusy = false
+const effects = createEffects(scene)
+
+function updatePostActions(post: Post) {
+  const counts: Record<PostAction, number> = {
+    reply: post.counts.replies,
+    repost: post.counts.reposts,
+    quote: post.counts.quotes,
+    like: post.counts.likes
+  }
+  document.querySelectorAll<HTMLElement>('[data-action]').forEach(btn => {
+    const action = btn.dataset.action as PostAction
+    btn.querySelector('.count')!.textContent = String(counts[action])
+    btn.classList.toggle('active', (action === 'like' && !!post.viewer.like) || (action === 'repost' && !!post.viewer.repost))
+  })
+}
+
+// The panel's floating indicator shows whether we liked it
+function updatePanelLikeState(post: Post) {
+  const indicator = post.mesh?.getObjectByName('indicator') as THREE.Mesh | undefined
+  if (!indicator) return
+  ;(indicator.material as THREE.MeshBasicMaterial).color.set(post.viewer.like ? LIKED_COLOR : post.mesh!.userData.baseColor)
+}
+
+// Actions hit the network - one at a time, and the viewer catches up after
+async function runPostAction(post: Post, action: () => Promise<void>) {
+  if (postActionBusy) return
+  postActionBusy = true
+  try {
+    await action()
+  } catch (err: any) {
+    showNotification('Failed: ' + (err.message || 'Unknown error'))
+  } finally {
+    postActionBusy = false
+    if (viewedPost === post) updatePostActions(post)
+  }
+}
+
+function toggleLike(post: Post) {
+  return runPostAction(post, async () => {
+    if (post.viewer.like) {
+      await agent.deleteLike(post.viewer.like)
+      post.viewer.like = undefined
+      post.counts.likes--
+    } else {
+      post.viewer.like = (await agent.like(post.uri, post.cid)).uri
+      post.counts.likes++
+      if (post.mesh) effects.heartBurst(post.mesh.position)
+    }
+    updatePanelLikeState(post)
+  })
+}
+
+function toggleRepost(post: Post) {
+  return runPostAction(post, async () => {
+    if (post.viewer.repost) {
+      await agent.deleteRepost(post.viewer.repost)
+      post.viewer.repost = undefined
+      post.counts.reposts--
+      showNotification('Repost removed')
+    } else {
+      post.viewer.repost = (await agent.repost(post.uri, post.cid)).uri
+      post.counts.reposts++
+      showNotification('Reposted!')
+    }
+  })
+}
+
+function openPostCompose(mode: 'reply' | 'quote') {
+  if (!viewedPost) return
+  composeMode = mode
+  document.getElementById('compose-label')!.textContent =
+    mode === 'reply' ? `Reply to @${viewedPost.author.handle}` : `Quote @${viewedPost.author.handle}`
+  document.getElementById('post-compose')!.style.display = 'block'
+  ;(document.getElementById('compose-text') as HTMLTextAreaElement).focus()
+  updatePostComposeCount()
+}
+
+// Remaining graphemes, red once over the limit
+function renderDraftCount(id: string, info: DraftInfo) {
+  const count = document.getElementById(id)!
+  count.textContent = String(info.remaining)
+  count.classList.toggle('over', info.remaining < 0)
+}
+
+function updatePostComposeCount() {
+  renderDraftCount('compose-count', inspectDraft((document.getElementById('compose-text') as HTMLTextAreaElement).value))
+}
+
+function closePostCompose() {
+  composeMode = null
+  ;(document.getElementById('compose-text') as HTMLTextAreaElement).value = ''
+  document.getElementById('post-compose')!.style.display = 'none'
+}
+
+function sendPostCompose() {
+  const post = viewedPost
+  const mode = composeMode
+  const text = (document.getElementById('compose-text') as HTMLTextAreaElement).value
+  const draft = inspectDraft(text)
+  if (!post || !mode || draft.graphemes === 0 || draft.remaining < 0) return
+
+  return runPostAction(post, async () => {
+    const ref = { uri: post.uri, cid: post.cid }
+    const rt = await prepareRichText(agent, text)
+    if (mode === 'reply') {
+      await agent.post({ text: rt.text, facets: rt.facets, reply: { root: post.replyRoot ?? ref, parent: ref } })
+      post.counts.replies++
+      showNotification('Reply sent!')
+    } else {
+      await agent.post({ text: rt.text, facets: rt.facets, embed: { $type: 'app.bsky.embed.record', record: ref } })
+      post.counts.quotes++
+      showNotification('Quote posted!')
+    }
+    closePostCompose()
+  })
+}
+
+// Thread view - the viewed post's parents and replies laid out as a bridge
+// you can walk along. The timeline's panels are put away, not rebuilt, so
+// they come back where they were.
+async function openThread(post: Post) {
+  let view
+  try {
+    view = (await agent.getPostThread({
+      uri: post.uri,
+      depth: THREAD_REPLY_DEPTH,
+      parentHeight: THREAD_PARENT_HEIGHT
+    })).data.thread
+  } catch (err: any) {
+    showNotification('Could not load thread: ' + (err.message || 'Unknown error'))
+    return
+  }
+  if (!AppBskyFeedDefs.isThreadViewPost(view)) {
+    showNotification('That thread is not available')
+    return
+  }
+  // Logged out while it loaded
+  if (!isLoggedIn) return
+
+  const layout = layoutThread(view)
+  const timeline = thread ? thread.timeline : posts
+  posts.forEach(p => {
+    if (p.mesh) scene.remove(p.mesh)
+  })
+  thread?.bridge.dispose()
+
+  const bridge = createThreadBridge(layout)
+  scene.add(bridge.group)
+  posts = layout.slots.map(slot => {
+    const threadPost = toPost(slot.post)
+    threadPost.mesh = createPostMesh(threadPost)
+    threadPost.mesh.position.set(slot.x, 2.5, slot.z)
+    threadPost.mesh.rotation.y = Math.PI / 4
+    scene.add(threadPost.mesh)
+    return threadPost
+  })
+  thread = { bridge, timeline }
+  updateHubProps()
+
+  // Arrive on the walkway just before the post you opened
+  const anchor = layout.slots[layout.anchor]
+  player.position.set(anchor.x, 0, anchor.z - 2.5)
+  document.getElementById('post-viewer')!.style.display = 'none'
+  viewedPost = null
+  closePostCompose()
+  updatePlaceLabel()
+  showNotification(`Thread: ${posts.length} posts • B to go back`)
+}
+
+function closeThread() {
+  if (!thread) return
+  posts.forEach(p => {
+    if (p.mesh) scene.remove(p.mesh)
+  })
+  thread.bridge.dispose()
+  posts = thread.timeline
+  posts.forEach(p => {
+    if (p.mesh) scene.add(p.mesh)
+  })
+  thread = null
+  updateHubProps()
+  document.getElementById('post-viewer')!.style.display = 'none'
+  viewedPost = null
+  updatePlaceLabel()
+}
 
 // Animation loop
 const clock = new THREE.Clock()
@@ -1078,6 +1910,11 @@ function animate() {
 
   const delta = clock.getDelta()
 
+  playerFace?.update(delta)
+  updateEmotes(delta)
+  effects.update(delta)
+  thread?.bridge.update(delta)
+
   // Animate refresh token
   refreshToken.rotation.y += 0.02
   refreshToken.children[0].rotation.x += 0.01 // outer cube
@@ -1104,7 +1941,7 @@ function animate() {
   const portalDx = player.position.x - activePortal.position.x
   const portalDz = player.position.z - activePortal.position.z
   const portalDist = Math.sqrt(portalDx * portalDx + portalDz * portalDz)
-  if (portalDist < 2) {
+  if (activePortal.visible && portalDist < 2) {
     // Teleport to other world
     const targetWorld = currentWorld === 'cyber' ? 'fantasy' : 'cyber'
     switchWorld(targetWorld)
@@ -1212,6 +2049,11 @@ function animate() {
   playerShadow.scale.setScalar(shadowScale)
   ;(playerShadow.material as THREE.MeshBasicMaterial).opacity = shadowOpacity
 
+  // Share where we ended up, then move everyone else
+  sendPresenceState(performance.now())
+  peers.update(delta, frustumSize / RENDER_HEIGHT, BUBBLE_STYLES[currentWorld])
+  updateHost(delta)
+
   // Camera follows player directly (no sway)
   const camOffset = new THREE.Vector3(20, 20, 20)
   camera.position.copy(player.position).add(camOffset)
@@ -1251,13 +2093,14 @@ function animate() {
 
       // Floating animation
       post.mesh.position.y = 2.5 + Math.sin(Date.now() * 0.002 + i) * 0.5
-      post.mesh.rotation.y += 0.002
+      // Thread panels hold still, facing the camera along the bridge
+      if (!thread) post.mesh.rotation.y += 0.002
 
       // Glow effect for closest post
       const isClosest = closestPost === post
-      const frame = post.mesh.children[0] as THREE.Mesh
-      const bar = post.mesh.children[2] as THREE.Mesh
-      const indicator = post.mesh.children[5] as THREE.Mesh
+      const frame = post.mesh.getObjectByName('frame') as THREE.Mesh
+      const bar = post.mesh.getObjectByName('bar') as THREE.Mesh
+      const indicator = post.mesh.getObjectByName('indicator') as THREE.Mesh
 
       if (frame && bar) {
         const targetColor = isClosest ? '#ffffff' : post.mesh.userData.baseColor
@@ -1286,7 +2129,7 @@ function animate() {
     if (cube) {
       cube.rotation.y += 0.02
       cube.rotation.x += 0.01
-      cube.position.y = pillar.userData?.baseY || (pillarPositions[i]?.h || 8) + 1.5 + Math.sin(Date.now() * 0.003 + i) * 0.3
+      cube.position.y = pillar.userData.height + 1.5 + Math.sin(Date.now() * 0.003 + i) * 0.3
     }
   })
 
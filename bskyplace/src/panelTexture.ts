@@ -0,0 +1,163 @@
+import * as THREE from 'three'
+import { PIXEL_FONT, PIXEL_LINE_HEIGHT, snapAlpha, wrapText } from './bubble'
+
+// Faces of the in-world post panels: avatar, handle and the first lines of
+// the post, in the same pixel font as the bubbles. Panels are 2 x 1.25
+// units, so 128x80 canvas pixels land close to one low-res pixel each when
+// you walk up to read one.
+//
+// A fresh timeline is twenty panels at once, so drawing waits for idle time
+// between frames, a few faces per slice, and avatars decode off the main
+// thread. Textures are cached by post URI for when the same post comes back.
+
+export interface PanelFace {
+  key: string
+  handle: string
+  text: string
+  avatar?: string
+  color: string
+  // Leave the right side free for the embed thumbnail
+  mediaColumn: boolean
+}
+
+export const PANEL_FACE_WIDTH = 2
+export const PANEL_FACE_HEIGHT = 1.25
+
+const WIDTH = 128
+const HEIGHT = 80
+const PADDING = 3
+const AVATAR_SIZE = 14
+const TEXT_TOP = AVATAR_SIZE + PADDING * 2 + 2
+const TEXT_WIDTH = WIDTH - PADDING * 2
+// Clear of the embed thumbnail, which starts 0.2 units right of center
+const MEDIA_TEXT_WIDTH = 70
+const MAX_LINES = Math.floor((HEIGHT - TEXT_TOP - PADDING) / PIXEL_LINE_HEIGHT)
+const TEXT_COLOR = '#e0e0ff'
+
+// Oldest textures are dropped past this - far more than one feed's worth
+const MAX_CACHED = 200
+
+const textures = new Map<string, Promise<THREE.CanvasTexture>>()
+const avatars = new Map<string, Promise<HTMLCanvasElement | null>>()
+
+// ---- Idle-time jobs ----
+
+const jobs: Array<() => void> = []
+let jobsScheduled = false
+
+const requestIdle: (callback: (deadline: IdleDeadline) => void) => void = 'requestIdleCallback' in window
+  ? (callback) => window.requestIdleCallback(callback, { timeout: 500 })
+  : (callback) => setTimeout(() => callback({ didTimeout: true, timeRemaining: () => 0 }), 16)
+
+function runJobs(deadline: IdleDeadline) {
+  jobsScheduled = false
+  // At least one per slice so a page that's never idle still gets there
+  do {
+    jobs.shift()!()
+  } while (jobs.length > 0 && deadline.timeRemaining() > 4)
+  scheduleJobs()
+}
+
+function scheduleJobs() {
+  if (jobsScheduled || jobs.length === 0) return
+  jobsScheduled = true
+  requestIdle(runJobs)
+}
+
+function whenIdle<T>(job: () => T): Promise<T> {
+  return new Promise(resolve => {
+    jobs.push(() => resolve(job()))
+    scheduleJobs()
+  })
+}
+
+// ---- Drawing ----
+
+// Decoded off the main thread, and only the panel-sized copy is kept - one
+// author shows up on many panels. Null when it can't be loaded or can't be
+// drawn to a canvas (no CORS headers).
+function loadAvatar(url: string): Promise<HTMLCanvasElement | null> {
+  let avatar = avatars.get(url)
+  if (!avatar) {
+    const img = new Image()
+    img.crossOrigin = 'anonymous'
+    img.src = url
+    avatar = img.decode().then(() => {
+      const small = document.createElement('canvas')
+      small.width = AVATAR_SIZE
+      small.height = AVATAR_SIZE
+      small.getContext('2d')!.drawImage(img, 0, 0, AVATAR_SIZE, AVATAR_SIZE)
+      return small
+    }, () => null)
+    avatars.set(url, avatar)
+  }
+  return avatar
+}
+
+function drawFace(face: PanelFace, avatar: HTMLCanvasElement | null): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = WIDTH
+  canvas.height = HEIGHT
+  const ctx = canvas.getContext('2d')!
+
+  // Text first so snapping its alpha doesn't touch the avatar
+  ctx.font = PIXEL_FONT
+  ctx.textBaseline = 'top'
+  const textX = PADDING * 2 + AVATAR_SIZE + 1
+  ctx.fillStyle = face.color
+  ctx.fillText(wrapText(ctx, `@${face.handle}`, WIDTH - textX - PADDING, 1)[0], textX, PADDING + Math.floor((AVATAR_SIZE - 8) / 2))
+
+  ctx.fillStyle = TEXT_COLOR
+  const lines = wrapText(ctx, face.text, face.mediaColumn ? MEDIA_TEXT_WIDTH : TEXT_WIDTH, MAX_LINES)
+  lines.forEach((line, i) => ctx.fillText(line, PADDING, TEXT_TOP + i * PIXEL_LINE_HEIGHT))
+  snapAlpha(ctx, WIDTH, HEIGHT)
+
+  // Divider under the header
+  ctx.fillStyle = face.color
+  ctx.fillRect(PADDING, TEXT_TOP - 3, WIDTH - PADDING * 2, 1)
+
+  // Avatar in a 1px frame, or a solid block when there isn't one
+  ctx.fillRect(PADDING - 1, PADDING - 1, AVATAR_SIZE + 2, AVATAR_SIZE + 2)
+  if (avatar) {
+    ctx.drawImage(avatar, PADDING, PADDING)
+  } else {
+    ctx.fillStyle = '#0a0a1a'
+    ctx.fillRect(PADDING + 3, PADDING + 3, AVATAR_SIZE - 6, AVATAR_SIZE - 6)
+  }
+
+  return canvas
+}
+
+function createTexture(canvas: HTMLCanvasElement): THREE.CanvasTexture {
+  const texture = new THREE.CanvasTexture(canvas)
+  texture.minFilter = THREE.NearestFilter
+  texture.magFilter = THREE.NearestFilter
+  texture.generateMipmaps = false
+  texture.colorSpace = THREE.SRGBColorSpace
+  return texture
+}
+
+// Resolves once the face is drawn - show the panel blank until then
+export function loadPanelTexture(face: PanelFace): Promise<THREE.CanvasTexture> {
+  let texture = textures.get(face.key)
+  if (texture) {
+    // Most recently used goes to the back of the line
+    textures.delete(face.key)
+    textures.set(face.key, texture)
+    return texture
+  }
+
+  texture = (async () => {
+    const avatar = face.avatar ? await loadAvatar(face.avatar) : null
+    return whenIdle(() => createTexture(drawFace(face, avatar)))
+  })()
+  textures.set(face.key, texture)
+
+  if (textures.size > MAX_CACHED) {
+    const [oldest, evicted] = textures.entries().next().value!
+    textures.delete(oldest)
+    // A panel still showing it just gets it re-uploaded
+    evicted.then(old => old.dispose())
+  }
+  return texture
+}
@@ -0,0 +1,219 @@
+import * as THREE from 'three'
+import { createAvatar, disposeAvatar } from '../../shared/avatar'
+import { validateAvatarRecord } from '../../shared/avatarRecord'
+import { defaultAvatarForDid } from '../../shared/avatarGenerator'
+import { createFaceAnimator, type FaceAnimator } from '../../shared/avatarExpression'
+import type { PresencePeer, PresenceState } from '../../shared/presence'
+import { createBubble, createNameTag, disposeBubble, updateBubbleScale, type BubbleStyle } from './bubble'
+import { EMOTES, poseEmote, resetEmotePose, type Emote } from './emotes'
+
+// Other players in the world. Their states arrive every ~100ms, so each one
+// is drawn a little in the past and interpolated between the two snapshots
+// around that time - smooth movement without guessing ahead.
+
+const MODEL_Y = 1.5 // Same as the player's
+const NAME_TAG_HEIGHT = 3.4
+const BUBBLE_HEIGHT = 2.8
+const INTERPOLATION_DELAY_MS = 150
+const MAX_SNAPSHOTS = 20
+
+interface Snapshot {
+  time: number
+  state: PresenceState
+}
+
+interface RemotePeer {
+  peer: PresencePeer
+  group: THREE.Group
+  model: THREE.Group
+  face: FaceAnimator
+  nameTag: THREE.Sprite | null
+  snapshots: Snapshot[]
+  emote: { emote: Emote; time: number } | null
+  bubble: { sprite: THREE.Sprite; expiresIn: number } | null
+}
+
+export interface PeerManager {
+  reset(peers: PresencePeer[]): void
+  add(peer: PresencePeer): void
+  remove(id: string): void
+  setState(id: string, state: PresenceState): void
+  setAvatar(id: string, avatar: unknown): void
+  playEmote(id: string, emote: string): void
+  // unitsPerPixel keeps tags pixel-sized; style follows the current world
+  update(delta: number, unitsPerPixel: number, style: BubbleStyle): void
+  clear(): void
+}
+
+// Shortest way around the circle, so facing doesn't spin the long way
+function lerpAngle(a: number, b: number, t: number): number {
+  const diff = Math.atan2(Math.sin(b - a), Math.cos(b - a))
+  return a + diff * t
+}
+
+function buildModel(peer: PresencePeer): THREE.Group {
+  // Avatars come from other clients - repair what's there, and give
+  // anyone who sent nothing their DID look
+  const config = peer.avatar && typeof peer.avatar === 'object'
+    ? validateAvatarRecord(peer.avatar).config
+    : defaultAvatarForDid(peer.did)
+  const model = createAvatar(config, { scale: 0.6, lod: 'low', castShadow: true, body: true })
+  model.position.y = MODEL_Y
+  return model
+}
+
+export function createPeerManager(scene: THREE.Scene): PeerManager {
+  const peers = new Map<string, RemotePeer>()
+  let tagStyle: BubbleStyle | null = null
+
+  function applyState(remote: RemotePeer, state: PresenceState) {
+    remote.group.position.set(state.x, state.y, state.z)
+    remote.group.rotation.y = state.rotation
+  }
+
+  function add(peer: PresencePeer) {
+    remove(peer.id)
+    const group = new THREE.Group()
+    const model = buildModel(peer)
+    group.add(model)
+    const remote: RemotePeer = {
+      peer,
+      group,
+      model,
+      face: createFaceAnimator(model, { idleBlink: true }),
+      nameTag: null,
+      snapshots: [{ time: performance.now(), state: peer.state }],
+      emote: null,
+      bubble: null
+    }
+    applyState(remote, peer.state)
+    scene.add(group)
+    peers.set(peer.id, remote)
+  }
+
+  function remove(id: string) {
+    const remote = peers.get(id)
+    if (!remote) return
+    if (remote.nameTag) disposeBubble(remote.nameTag)
+    if (remote.bubble) disposeBubble(remote.bubble.sprite)
+    disposeAvatar(remote.model)
+    scene.remove(remote.group)
+    peers.delete(id)
+  }
+
+  function clear() {
+    ;[...peers.keys()].forEach(remove)
+  }
+
+  // Position at renderTime from the snapshot buffer
+  function interpolate(remote: RemotePeer, renderTime: number) {
+    const { snapshots } = remote
+    // Drop snapshots we've moved past, keeping one before renderTime
+    while (snapshots.length > 2 && snapshots[1].time <= renderTime) snapshots.shift()
+
+    const [from, to] = snapshots
+    if (!to || renderTime <= from.time) {
+      applyState(remote, from.state)
+      return
+    }
+    if (renderTime >= to.time) {
+      applyState(remote, to.state)
+      return
+    }
+    const t = (renderTime - from.time) / (to.time - from.time)
+    remote.group.position.set(
+      from.state.x + (to.state.x - from.state.x) * t,
+      from.state.y + (to.state.y - from.state.y) * t,
+      from.state.z + (to.state.z - from.state.z) * t
+    )
+    remote.group.rotation.y = lerpAngle(from.state.rotation, to.state.rotation, t)
+  }
+
+  return {
+    reset(list) {
+      clear()
+      list.forEach(add)
+    },
+
+    add,
+    remove,
+    clear,
+
+    setState(id, state) {
+      const remote = peers.get(id)
+      if (!remote) return
+      remote.peer.state = state
+      remote.snapshots.push({ time: performance.now(), state })
+      if (remote.snapshots.length > MAX_SNAPSHOTS) remote.snapshots.shift()
+    },
+
+    setAvatar(id, avatar) {
+      const remote = peers.get(id)
+      if (!remote) return
+      remote.peer.avatar = avatar
+      disposeAvatar(remote.model)
+      remote.model = buildModel(remote.peer)
+      remote.face = createFaceAnimator(remote.model, { idleBlink: true })
+      remote.group.add(remote.model)
+      remote.emote = null
+    },
+
+    playEmote(id, emote) {
+      const remote = peers.get(id)
+      // Unknown emotes from newer clients are ignored. hasOwn, not `in` -
+      // 'constructor' is in every object.
+      if (!remote || !Object.hasOwn(EMOTES, emote) || !tagStyle) return
+      const info = EMOTES[emote as Emote]
+      resetEmotePose(remote.model, MODEL_Y)
+      remote.emote = { emote: emote as Emote, time: 0 }
+      remote.face.play(info.expression, info.duration)
+      if (remote.bubble) disposeBubble(remote.bubble.sprite)
+      const sprite = createBubble(info.bubble, tagStyle)
+      sprite.position.y = BUBBLE_HEIGHT
+      remote.group.add(sprite)
+      remote.bubble = { sprite, expiresIn: info.duration + 0.5 }
+    },
+
+    update(delta, unitsPerPixel, style) {
+      // Tags are redrawn when the world (and so the style) changes
+      const restyle = style !== tagStyle
+      tagStyle = style
+      const renderTime = performance.now() - INTERPOLATION_DELAY_MS
+
+      peers.forEach(remote => {
+        interpolate(remote, renderTime)
+        remote.face.update(delta)
+
+        if (restyle || !remote.nameTag) {
+          if (remote.nameTag) disposeBubble(remote.nameTag)
+          remote.nameTag = createNameTag(`@${remote.peer.handle}`, style)
+          remote.nameTag.position.y = NAME_TAG_HEIGHT
+          remote.group.add(remote.nameTag)
+        }
+        // Hide the tag while a bubble is up - they'd overlap
+        remote.nameTag.visible = !remote.bubble
+        updateBubbleScale(remote.nameTag, unitsPerPixel)
+
+        if (remote.emote) {
+          remote.emote.time += delta
+          if (remote.emote.time >= EMOTES[remote.emote.emote].duration) {
+            resetEmotePose(remote.model, MODEL_Y)
+            remote.emote = null
+          } else {
+            poseEmote(remote.model, remote.emote.emote, remote.emote.time, MODEL_Y)
+          }
+        }
+
+        if (remote.bubble) {
+          remote.bubble.expiresIn -= delta
+          if (remote.bubble.expiresIn <= 0) {
+            disposeBubble(remote.bubble.sprite)
+            remote.bubble = null
+          } else {
+            updateBubbleScale(remote.bubble.sprite, unitsPerPixel)
+          }
+        }
+      })
+    }
+  }
+}
@@ -0,0 +1,229 @@
+import {
+  AppBskyEmbedExternal,
+  AppBskyEmbedImages,
+  AppBskyEmbedRecord,
+  AppBskyEmbedRecordWithMedia,
+  AppBskyEmbedVideo,
+  RichText,
+  type AppBskyFeedDefs,
+  type AppBskyRichtextFacet
+} from '@atproto/api'
+
+// Rich post content: embeds (images, link cards, quotes, video) and facets
+// (mentions, links, hashtags). Embeds are read from the appview's views,
+// which already carry CDN URLs for images and thumbnails.
+
+export interface PostImage {
+  thumb: string
+  fullsize: string
+  alt: string
+}
+
+export interface LinkCard {
+  uri: string
+  title: string
+  description: string
+  thumb?: string
+}
+
+export interface QuotedPost {
+  uri: string
+  author: { handle: string; displayName?: string }
+  text: string
+}
+
+export type PostMedia =
+  | { type: 'images'; images: PostImage[] }
+  | { type: 'external'; card: LinkCard }
+  | { type: 'video'; thumbnail?: string; alt?: string }
+
+export type PostEmbed =
+  | PostMedia
+  // quote is null when the quoted post is gone, blocked or detached
+  | { type: 'record'; quote: QuotedPost | null }
+  | { type: 'recordWithMedia'; quote: QuotedPost | null; media: PostMedia }
+
+function readMedia(view: AppBskyEmbedRecordWithMedia.View['media']): PostMedia | undefined {
+  if (AppBskyEmbedImages.isView(view)) {
+    return {
+      type: 'images',
+      images: view.images.map((image) => ({ thumb: image.thumb, fullsize: image.fullsize, alt: image.alt }))
+    }
+  }
+  if (AppBskyEmbedExternal.isView(view)) {
+    const { uri, title, description, thumb } = view.external
+    return { type: 'external', card: { uri, title, description, thumb } }
+  }
+  if (AppBskyEmbedVideo.isView(view)) {
+    return { type: 'video', thumbnail: view.thumbnail, alt: view.alt }
+  }
+  return undefined
+}
+
+function readQuote(view: AppBskyEmbedRecord.View): QuotedPost | null {
+  const record = view.record
+  if (!AppBskyEmbedRecord.isViewRecord(record)) return null
+  return {
+    uri: record.uri,
+    author: { handle: record.author.handle, displayName: record.author.displayName },
+    text: typeof record.value.text === 'string' ? record.value.text : ''
+  }
+}
+
+// From a post view's embed - unknown embed types are dropped
+export function readEmbed(view: AppBskyFeedDefs.PostView['embed']): PostEmbed | undefined {
+  if (AppBskyEmbedRecord.isView(view)) {
+    return { type: 'record', quote: readQuote(view) }
+  }
+  if (AppBskyEmbedRecordWithMedia.isView(view)) {
+    const media = readMedia(view.media)
+    const quote = readQuote(view.record)
+    return media ? { type: 'recordWithMedia', quote, media } : { type: 'record', quote }
+  }
+  return view ? readMedia(view) : undefined
+}
+
+// Image for the in-world panel, if the embed has one
+export function embedThumbnail(embed: PostEmbed | undefined): string | undefined {
+  const media = embed?.type === 'recordWithMedia' ? embed.media : embed
+  switch (media?.type) {
+    case 'images': return media.images[0]?.thumb
+    case 'external': return media.card.thumb
+    case 'video': return media.thumbnail
+    default: return undefined
+  }
+}
+
+// ---- Post viewer rendering ----
+// Everything here comes from other people's posts, so it's built with DOM
+// nodes and textContent, never innerHTML.
+
+function element<K extends keyof HTMLElementTagNameMap>(tag: K, className?: string, text?: string): HTMLElementTagNameMap[K] {
+  const el = document.createElement(tag)
+  if (className) el.className = className
+  if (text !== undefined) el.textContent = text
+  return el
+}
+
+function externalLink(href: string, className?: string, text?: string): HTMLAnchorElement {
+  const link = element('a', className, text)
+  // Only web links - a facet could carry javascript: or anything else
+  link.href = /^https?:\/\//i.test(href) ? href : '#'
+  link.target = '_blank'
+  link.rel = 'noopener noreferrer'
+  return link
+}
+
+// Text with mentions, links and hashtags made clickable. Mentions call
+// onMention with the handle so the caller can, say, visit that place.
+export function renderRichText(
+  container: HTMLElement,
+  text: string,
+  facets: AppBskyRichtextFacet.Main[] | undefined,
+  onMention: (handle: string) => void
+) {
+  container.replaceChildren()
+  const rt = new RichText({ text, facets })
+  for (const segment of rt.segments()) {
+    if (segment.isMention()) {
+      const mention = element('a', 'facet-mention', segment.text)
+      mention.href = '#'
+      mention.addEventListener('click', (e) => {
+        e.preventDefault()
+        onMention(segment.text.replace(/^@/, ''))
+      })
+      container.append(mention)
+    } else if (segment.isLink()) {
+      container.append(externalLink(segment.link!.uri, 'facet-link', segment.text))
+    } else if (segment.isTag()) {
+      container.append(externalLink(`https://bsky.app/hashtag/${encodeURIComponent(segment.tag!.tag)}`, 'facet-tag', segment.text))
+    } else {
+      container.append(segment.text)
+    }
+  }
+}
+
+function renderMedia(media: PostMedia): HTMLElement {
+  switch (media.type) {
+    case 'images': {
+      const grid = element('div', `embed-images count-${media.images.length}`)
+      media.images.forEach(image => {
+        const figure = element('figure', 'embed-image')
+        const link = externalLink(image.fullsize)
+        const img = element('img')
+        img.src = image.thumb
+        img.alt = image.alt
+        link.append(img)
+        figure.append(link)
+        if (image.alt) figure.append(element('figcaption', 'embed-alt', image.alt))
+        grid.append(figure)
+      })
+      return grid
+    }
+
+    case 'external': {
+      const card = externalLink(media.card.uri, 'embed-card')
+      if (media.card.thumb) {
+        const img = element('img')
+        img.src = media.card.thumb
+        img.alt = ''
+        card.append(img)
+      }
+      const body = element('div', 'embed-card-body')
+      let domain = media.card.uri
+      try {
+        domain = new URL(media.card.uri).hostname
+      } catch {
+        // Not a URL - show it as-is
+      }
+      body.append(
+        element('div', 'embed-card-domain', domain),
+        element('div', 'embed-card-title', media.card.title || media.card.uri)
+      )
+      if (media.card.description) body.append(element('div', 'embed-card-description', media.card.description))
+      card.append(body)
+      return card
+    }
+
+    case 'video': {
+      const video = element('div', 'embed-video')
+      if (media.thumbnail) {
+        const img = element('img')
+        img.src = media.thumbnail
+        img.alt = media.alt ?? ''
+        video.append(img)
+      }
+      video.append(element('div', 'embed-video-label', '▶ video'))
+      if (media.alt) video.append(element('figcaption', 'embed-alt', media.alt))
+      return video
+    }
+  }
+}
+
+function renderQuote(quote: QuotedPost | null): HTMLElement {
+  const box = element('div', 'embed-quote')
+  if (!quote) {
+    box.append(element('div', 'embed-quote-missing', 'Quoted post unavailable'))
+    return box
+  }
+  box.append(
+    element('div', 'embed-quote-author', `@${quote.author.handle}${quote.author.displayName ? ` (${quote.author.displayName})` : ''}`),
+    element('div', 'embed-quote-text', quote.text)
+  )
+  return box
+}
+
+export function renderEmbed(container: HTMLElement, embed: PostEmbed | undefined) {
+  container.replaceChildren()
+  if (!embed) return
+  switch (embed.type) {
+    case 'record':
+      container.append(renderQuote(embed.quote))
+      break
+    case 'recordWithMedia':
+      container.append(renderMedia(embed.media), renderQuote(embed.quote))
+      break
+    default:
+      container.append(renderMedia(embed))
+  }
+}
@@ -0,0 +1,48 @@
+import type { ClientMessage, ServerMessage } from '../../shared/presence'
+
+// Presence networking sits behind this interface so the world doesn't care
+// what carries the messages - a WebSocket to the relay today, something
+// else later.
+
+export interface PresenceTransport {
+  send(message: ClientMessage): void
+  close(): void
+  onmessage: ((message: ServerMessage) => void) | null
+  onclose: (() => void) | null
+}
+
+// Resolves once the socket is open, rejects if it never gets there
+export function connectWebSocketTransport(url: string): Promise<PresenceTransport> {
+  return new Promise((resolve, reject) => {
+    const socket = new WebSocket(url)
+    let opened = false
+
+    const transport: PresenceTransport = {
+      send(message) {
+        if (socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message))
+      },
+      close() {
+        transport.onclose = null
+        socket.close()
+      },
+      onmessage: null,
+      onclose: null
+    }
+
+    socket.addEventListener('open', () => {
+      opened = true
+      resolve(transport)
+    })
+    socket.addEventListener('message', (event) => {
+      try {
+        transport.onmessage?.(JSON.parse(event.data) as ServerMessage)
+      } catch (err) {
+        console.warn('Bad presence message:', err)
+      }
+    })
+    socket.addEventListener('close', () => {
+      if (opened) transport.onclose?.()
+      else reject(new Error(`Could not connect to ${url}`))
+    })
+  })
+}
@@ -0,0 +1,163 @@
+import * as THREE from 'three'
+import { AppBskyFeedDefs } from '@atproto/api'
+
+// A thread laid out in the world: the parent chain runs in a straight line
+// up to the post you opened, and its replies carry on past it, branching
+// off to the side. Panels stand on hex pads joined by a walkway with data
+// packets streaming from each post to its replies.
+
+// What to ask getPostThread for - more wouldn't fit in the world
+export const THREAD_PARENT_HEIGHT = 4
+export const THREAD_REPLY_DEPTH = 3
+
+const MAX_REPLIES = 4 // Per post
+const MAX_LANES = 6 // Branches side by side
+const STEP = 5 // Between a post and its reply
+const LANE_WIDTH = 5 // Between branches
+
+export interface ThreadSlot {
+  post: AppBskyFeedDefs.PostView
+  x: number
+  z: number
+  // Index of the slot this one replies to - null for the top of the chain
+  parent: number | null
+}
+
+export interface ThreadLayout {
+  slots: ThreadSlot[]
+  anchor: number // The post the thread was opened from
+}
+
+export interface ThreadBridge {
+  group: THREE.Group
+  update(delta: number): void
+  dispose(): void
+}
+
+// Slots centered on the world origin. Each reply chain keeps to one lane:
+// a post takes its first reply's lane, later replies open new ones while
+// there's room.
+export function layoutThread(thread: AppBskyFeedDefs.ThreadViewPost): ThreadLayout {
+  const slots: ThreadSlot[] = []
+  const lanes: number[] = []
+  const depths: number[] = []
+
+  // Parents, top of the chain first. Stops at deleted or blocked posts.
+  const chain: AppBskyFeedDefs.PostView[] = []
+  let parent = thread.parent
+  while (AppBskyFeedDefs.isThreadViewPost(parent) && chain.length < THREAD_PARENT_HEIGHT) {
+    chain.unshift(parent.post)
+    parent = parent.parent
+  }
+  chain.forEach((post, i) => {
+    slots.push({ post, x: 0, z: 0, parent: i > 0 ? i - 1 : null })
+    depths.push(i - chain.length)
+  })
+
+  let nextLane = 0
+  const place = (node: AppBskyFeedDefs.ThreadViewPost, depth: number, parentIndex: number | null): number => {
+    const index = slots.length
+    slots.push({ post: node.post, x: 0, z: 0, parent: parentIndex })
+    depths.push(depth)
+    lanes[index] = -1
+
+    const replies = depth < THREAD_REPLY_DEPTH
+      ? (node.replies ?? []).filter(AppBskyFeedDefs.isThreadViewPost).slice(0, MAX_REPLIES)
+      : []
+    replies.forEach((reply, i) => {
+      // Every branch but the first needs a lane of its own
+      if (i > 0 && nextLane >= MAX_LANES) return
+      const lane = place(reply, depth + 1, index)
+      if (i === 0) lanes[index] = lane
+    })
+    if (lanes[index] === -1) lanes[index] = nextLane++
+    return lanes[index]
+  }
+  const anchor = slots.length
+  place(thread, 0, chain.length > 0 ? chain.length - 1 : null)
+  // The chain leads straight into the anchor
+  for (let i = 0; i < chain.length; i++) lanes[i] = lanes[anchor]
+
+  const width = (nextLane - 1) * LANE_WIDTH
+  const minZ = Math.min(...depths) * STEP
+  const maxZ = Math.max(...depths) * STEP
+  slots.forEach((slot, i) => {
+    slot.x = lanes[i] * LANE_WIDTH - width / 2
+    slot.z = depths[i] * STEP - (minZ + maxZ) / 2
+  })
+  return { slots, anchor }
+}
+
+const WALKWAY_COLOR = '#00ffff'
+const ANCHOR_COLOR = '#ff00ff'
+const PACKETS_PER_EDGE = 2
+const PACKET_SPEED = 0.6 // Edge lengths per second
+
+interface Packet {
+  mesh: THREE.Mesh
+  from: THREE.Vector3
+  to: THREE.Vector3
+  t: number
+}
+
+export function createThreadBridge(layout: ThreadLayout): ThreadBridge {
+  const group = new THREE.Group()
+  const packets: Packet[] = []
+
+  const padGeom = new THREE.CylinderGeometry(1.4, 1.4, 0.15, 6)
+  const padMat = new THREE.MeshBasicMaterial({ color: WALKWAY_COLOR, transparent: true, opacity: 0.5 })
+  const anchorMat = new THREE.MeshBasicMaterial({ color: ANCHOR_COLOR, transparent: true, opacity: 0.7 })
+  const walkwayMat = new THREE.MeshBasicMaterial({ color: WALKWAY_COLOR, transparent: true, opacity: 0.25 })
+  const lineMat = new THREE.MeshBasicMaterial({ color: WALKWAY_COLOR })
+  const packetGeom = new THREE.BoxGeometry(0.25, 0.25, 0.25)
+  const packetMat = new THREE.MeshBasicMaterial({ color: '#ffffff' })
+
+  layout.slots.forEach((slot, i) => {
+    const pad = new THREE.Mesh(padGeom, i === layout.anchor ? anchorMat : padMat)
+    pad.position.set(slot.x, 0.08, slot.z)
+    group.add(pad)
+
+    if (slot.parent === null) return
+    const from = new THREE.Vector3(layout.slots[slot.parent].x, 0.1, layout.slots[slot.parent].z)
+    const to = new THREE.Vector3(slot.x, 0.1, slot.z)
+    const length = from.distanceTo(to)
+    const angle = Math.atan2(to.x - from.x, to.z - from.z)
+
+    // Walkway with a bright center line
+    const walkway = new THREE.Mesh(new THREE.BoxGeometry(1.2, 0.08, length), walkwayMat)
+    walkway.position.copy(from).lerp(to, 0.5)
+    walkway.rotation.y = angle
+    group.add(walkway)
+    const line = new THREE.Mesh(new THREE.BoxGeometry(0.1, 0.1, length), lineMat)
+    line.position.copy(walkway.position)
+    line.rotation.y = angle
+    group.add(line)
+
+    // Data flowing from the post to its reply
+    for (let p = 0; p < PACKETS_PER_EDGE; p++) {
+      const mesh = new THREE.Mesh(packetGeom, packetMat)
+      group.add(mesh)
+      packets.push({ mesh, from: from.clone().setY(0.4), to: to.clone().setY(0.4), t: p / PACKETS_PER_EDGE })
+    }
+  })
+
+  return {
+    group,
+
+    update(delta) {
+      for (const packet of packets) {
+        packet.t = (packet.t + delta * PACKET_SPEED) % 1
+        packet.mesh.position.lerpVectors(packet.from, packet.to, packet.t)
+        packet.mesh.rotation.y += delta * 3
+      }
+    },
+
+    dispose() {
+      group.removeFromParent()
+      group.traverse(child => {
+        if (child instanceof THREE.Mesh) child.geometry.dispose()
+      })
+      for (const material of [padMat, anchorMat, walkwayMat, lineMat, packetMat]) material.dispose()
+    }
+  }
+}
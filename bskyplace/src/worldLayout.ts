@@ -0,0 +1,172 @@
+import worldLexicon from '../../shared/lexicons/xyz/bskyplace/world.json'
+import { normalizeHexColor } from '../../shared/avatarRecord'
+import { seededRandom } from '../../shared/avatarGenerator'
+import { compileDefValidator, compileRecordValidator, type ValidationIssue } from '../../shared/lexiconValidator'
+
+// xyz.bskyplace.world - a user's place as a record in their repo.
+// Records come from other people's repos, so they're checked against the
+// validator compiled from the lexicon, then repaired field by field.
+
+export const WORLD_COLLECTION = 'xyz.bskyplace.world'
+export const WORLD_RKEY = 'self'
+// Schema version this build reads
+export const WORLD_SCHEMA_VERSION = 1
+
+export type WorldTheme = 'cyber' | 'fantasy'
+export type WorldObjectType = 'pillar' | 'tree' | 'flower' | 'mushroom'
+
+export interface WorldObject {
+  type: WorldObjectType
+  x: number
+  z: number
+  height?: number
+  color?: string
+}
+
+export interface WorldArea {
+  groundColor: string
+  accentColor: string
+  objects: WorldObject[]
+}
+
+export interface WorldLayout {
+  theme: WorldTheme
+  cyber: WorldArea
+  fantasy: WorldArea
+  portal: { x: number; z: number }
+}
+
+const checkWorldRecord = compileRecordValidator(worldLexicon)
+const checkObject = compileDefValidator(worldLexicon, 'object')
+const MAX_OBJECTS = worldLexicon.defs.area.properties.objects.maxLength
+
+// Where players arrive - a portal there would bounce them between worlds
+const ARRIVAL = { x: 10, z: 0 }
+const PORTAL_CLEARANCE = 4
+
+// Colors the hardcoded scene used to have
+export const DEFAULT_OBJECT_COLORS: Record<WorldObjectType, string> = {
+  pillar: '#ff00ff',
+  tree: '#2d5a2d',
+  flower: '#ff6b6b',
+  mushroom: '#ff6347'
+}
+
+const FLOWER_COLORS = ['#ff6b6b', '#ffd93d', '#6bcb77', '#4d96ff', '#ff6bff']
+const CAP_COLORS = ['#ff6347', '#ffa500', '#dda0dd']
+
+// The ring of pillars (cyber) and trees (fantasy) around the platform
+const LANDMARKS = [
+  { x: 20, z: 0, cyber: 10, fantasy: 8 }, { x: -20, z: 0, cyber: 8, fantasy: 6 },
+  { x: 0, z: 20, cyber: 12, fantasy: 10 }, { x: 0, z: -20, cyber: 9, fantasy: 7 },
+  { x: 15, z: 15, cyber: 7, fantasy: 5 }, { x: -15, z: 15, cyber: 11, fantasy: 9 },
+  { x: 15, z: -15, cyber: 8, fantasy: 6 }, { x: -15, z: -15, cyber: 10, fantasy: 8 },
+  { x: 25, z: 10, cyber: 6, fantasy: 4 }, { x: -25, z: -10, cyber: 9, fantasy: 7 }
+]
+
+// Layout for places without a record. Seeded (by the owner's DID) so the
+// flowers don't move around between visits.
+export function defaultWorldLayout(seed: string): WorldLayout {
+  const random = seededRandom(`bskyplace-world-v1:${seed}`)
+
+  const decor: WorldObject[] = []
+  for (let i = 0; i < 30; i++) {
+    const angle = random() * Math.PI * 2
+    const dist = 10 + random() * 25
+    const flower = random() > 0.5
+    const colors = flower ? FLOWER_COLORS : CAP_COLORS
+    decor.push({
+      type: flower ? 'flower' : 'mushroom',
+      x: Math.round(Math.cos(angle) * dist),
+      z: Math.round(Math.sin(angle) * dist),
+      color: colors[Math.floor(random() * colors.length)]
+    })
+  }
+
+  return {
+    theme: 'cyber',
+    cyber: {
+      groundColor: '#00ffff',
+      accentColor: '#00ffff',
+      objects: LANDMARKS.map(({ x, z, cyber }) => ({ type: 'pillar', x, z, height: cyber }))
+    },
+    fantasy: {
+      groundColor: '#4a8c4a',
+      accentColor: '#8b8b8b',
+      objects: [
+        ...LANDMARKS.map(({ x, z, fantasy }): WorldObject => ({ type: 'tree', x, z, height: fantasy })),
+        ...decor
+      ]
+    },
+    portal: { x: -12, z: -12 }
+  }
+}
+
+// Issues at field or anywhere under it
+function hasIssue(issues: ValidationIssue[], field: string): boolean {
+  return issues.some(issue => issue.field === field || issue.field.startsWith(`${field}.`) || issue.field.startsWith(`${field}[`))
+}
+
+// Type and position are needed to place an object; a bad height or color
+// just falls back to the default
+function readObject(value: unknown): WorldObject | null {
+  const issues = checkObject(value)
+  if (issues.some(issue => issue.field !== 'height' && issue.field !== 'color')) return null
+
+  const raw = value as Record<string, unknown>
+  const object: WorldObject = { type: raw.type as WorldObjectType, x: raw.x as number, z: raw.z as number }
+  if (raw.height !== undefined && !hasIssue(issues, 'height')) object.height = raw.height as number
+  const color = normalizeHexColor(raw.color)
+  if (color) object.color = color
+  return object
+}
+
+function readArea(value: unknown, fallback: WorldArea, name: string, issues: ValidationIssue[]): WorldArea {
+  // Missing or not an object
+  if (issues.some(issue => issue.field === name)) return fallback
+  const raw = value as Record<string, unknown>
+
+  const area = { ...fallback }
+  for (const key of ['groundColor', 'accentColor'] as const) {
+    const color = hasIssue(issues, `${name}.${key}`) ? normalizeHexColor(raw[key]) : raw[key] as string
+    if (color) area[key] = color
+  }
+
+  // Invalid objects are dropped, the rest of the place still shows
+  if (Array.isArray(raw.objects)) {
+    area.objects = raw.objects.slice(0, MAX_OBJECTS).map(readObject).filter((o): o is WorldObject => o !== null)
+  }
+  return area
+}
+
+// Read a record from a repo. Broken parts fall back to the default layout
+// for that owner; issues describe what was repaired.
+export function validateWorldRecord(value: unknown, seed: string): { layout: WorldLayout; issues: ValidationIssue[] } {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const fallback = defaultWorldLayout(seed)
+  const issues = checkWorldRecord(raw)
+
+  // No migrations yet - a newer record is read as far as we understand it
+  if (typeof raw.version === 'number' && raw.version > WORLD_SCHEMA_VERSION) {
+    issues.push({ field: 'version', message: `is newer than this build (${WORLD_SCHEMA_VERSION})`, value: raw.version })
+  }
+
+  const theme = hasIssue(issues, 'theme') ? fallback.theme : raw.theme as WorldTheme
+
+  let portal = hasIssue(issues, 'portal') ? undefined : raw.portal as { x: number; z: number } | undefined
+  // A portal where players arrive would bounce them between worlds
+  if (portal && Math.hypot(portal.x - ARRIVAL.x, portal.z - ARRIVAL.z) < PORTAL_CLEARANCE) {
+    issues.push({ field: 'portal', message: 'is too close to where players arrive', value: portal })
+    portal = undefined
+  }
+
+  return {
+    layout: {
+      theme,
+      cyber: readArea(raw.cyber, fallback.cyber, 'cyber', issues),
+      fantasy: readArea(raw.fantasy, fallback.fantasy, 'fantasy', issues),
+      portal: portal ? { x: portal.x, z: portal.z } : fallback.portal
+    },
+    issues
+  }
+}
@@ -0,0 +1,95 @@
+import assert from 'node:assert/strict'
+import { createServer, type Server } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { after, before, describe, test } from 'node:test'
+import { Secp256k1Keypair } from '@atproto/crypto'
+import { createServiceJwt } from '@atproto/xrpc-server'
+import { PRESENCE_LXM } from '../../shared/presence.ts'
+import { createServiceAuthVerifier, type Authenticator } from './auth.ts'
+
+// Signs real service-auth tokens and serves the DID documents from a local
+// PLC directory, so the signature, aud, lxm, expiry and handle checks all
+// run. Handles resolve from a table instead of DNS.
+
+const RELAY_DID = 'did:web:relay.test'
+const ALICE = 'did:plc:aliceaaaaaaaaaaaaaaaaaaa'
+const BOB = 'did:plc:bobaaaaaaaaaaaaaaaaaaaaa'
+
+// Bob's document claims alice's handle
+const HANDLES: Record<string, string> = { [ALICE]: 'alice.test', [BOB]: 'alice.test' }
+
+function didDocument(did: string, keypair: Secp256k1Keypair) {
+  return {
+    '@context': ['https://www.w3.org/ns/did/v1'],
+    id: did,
+    alsoKnownAs: [`at://${HANDLES[did]}`],
+    verificationMethod: [{
+      id: `${did}#atproto`,
+      type: 'Multikey',
+      controller: did,
+      publicKeyMultibase: keypair.did().replace('did:key:', '')
+    }],
+    service: [{ id: '#atproto_pds', type: 'AtprotoPersonalDataServer', serviceEndpoint: 'https://pds.test' }]
+  }
+}
+
+describe('service auth', () => {
+  let plc: Server
+  let authenticate: Authenticator
+  let aliceKey: Secp256k1Keypair
+  let bobKey: Secp256k1Keypair
+
+  const token = (overrides: Partial<Parameters<typeof createServiceJwt>[0]> = {}) =>
+    createServiceJwt({ iss: ALICE, aud: RELAY_DID, lxm: PRESENCE_LXM, keypair: aliceKey, ...overrides })
+
+  before(async () => {
+    aliceKey = await Secp256k1Keypair.create()
+    bobKey = await Secp256k1Keypair.create()
+    const documents: Record<string, unknown> = {
+      [ALICE]: didDocument(ALICE, aliceKey),
+      [BOB]: didDocument(BOB, bobKey)
+    }
+
+    plc = createServer((req, res) => {
+      const document = documents[decodeURIComponent(req.url!.slice(1))]
+      res.writeHead(document ? 200 : 404, { 'content-type': 'application/json' })
+      res.end(JSON.stringify(document ?? { message: 'DID not registered' }))
+    })
+    await new Promise<void>(resolve => plc.listen(0, '127.0.0.1', resolve))
+    const { port } = plc.address() as AddressInfo
+
+    authenticate = createServiceAuthVerifier({
+      serviceDid: RELAY_DID,
+      plcUrl: `http://127.0.0.1:${port}`,
+      // Only alice.test is registered, and it's alice's
+      resolveHandle: async handle => handle === 'alice.test' ? ALICE : undefined
+    })
+  })
+  after(() => new Promise<void>(resolve => plc.close(() => resolve())))
+
+  test('accepts a token signed by the issuer for the relay', async () => {
+    assert.deepEqual(await authenticate(await token()), { did: ALICE, handle: 'alice.test' })
+  })
+
+  test('rejects a token for another service', async () => {
+    await assert.rejects(authenticate(await token({ aud: 'did:web:elsewhere.test' })), /audience/)
+  })
+
+  test('rejects a token for another method', async () => {
+    await assert.rejects(authenticate(await token({ lxm: 'com.atproto.repo.createRecord' })), /lexicon method/)
+  })
+
+  test('rejects an expired token', async () => {
+    const now = Math.floor(Date.now() / 1000)
+    await assert.rejects(authenticate(await token({ iat: now - 120, exp: now - 60 })), /expired/)
+  })
+
+  test('rejects a token signed with another key', async () => {
+    await assert.rejects(authenticate(await token({ keypair: bobKey })), /signature/)
+  })
+
+  test('marks a handle that resolves to someone else as invalid', async () => {
+    const identity = await authenticate(await token({ iss: BOB, keypair: bobKey }))
+    assert.deepEqual(identity, { did: BOB, handle: 'handle.invalid' })
+  })
+})
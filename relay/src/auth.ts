@@ -0,0 +1,43 @@
+import { IdResolver, MemoryCache } from '@atproto/identity'
+import { verifyJwt } from '@atproto/xrpc-server'
+import { PRESENCE_LXM } from '../../shared/presence.ts'
+
+// Who a client is, as far as the relay is concerned
+export interface Identity {
+  did: string
+  handle: string
+}
+
+// Turns a client's token into an identity, or throws
+export type Authenticator = (token: string) => Promise<Identity>
+
+export interface ServiceAuthOptions {
+  // The relay's own DID - tokens must be minted for it (the aud claim)
+  serviceDid: string
+  plcUrl?: string
+  // Handle to DID, undefined when it doesn't resolve. Defaults to DNS and
+  // the handle's /.well-known/atproto-did.
+  resolveHandle?: (handle: string) => Promise<string | undefined>
+}
+
+// Verifies atproto service-auth JWTs, the kind a PDS hands out from
+// com.atproto.server.getServiceAuth. The signature is checked against the
+// signing key in the issuer's DID document, so nobody can claim a DID
+// they don't control - and the user's session tokens never leave their PDS.
+export function createServiceAuthVerifier(options: ServiceAuthOptions): Authenticator {
+  const idResolver = new IdResolver({ plcUrl: options.plcUrl, didCache: new MemoryCache() })
+  const resolveHandle = options.resolveHandle ?? ((handle: string) => idResolver.handle.resolve(handle))
+
+  return async (token) => {
+    const payload = await verifyJwt(token, options.serviceDid, PRESENCE_LXM, (iss, forceRefresh) =>
+      idResolver.did.resolveAtprotoKey(iss, forceRefresh)
+    )
+    const did = payload.iss.split('#')[0]
+
+    // Handles are only shown as name tags, but still check both directions
+    // so nobody walks around as someone else's handle
+    const { handle } = await idResolver.did.resolveAtprotoData(did)
+    const resolved = await resolveHandle(handle).catch(() => undefined)
+    return { did, handle: resolved === did ? handle : 'handle.invalid' }
+  }
+}
@@ -0,0 +1,22 @@
+// Token bucket: holds up to `burst` tokens, refilled at `perSecond`.
+// Every message costs one; with none left it's dropped.
+
+export interface RateLimiter {
+  take(): boolean
+}
+
+export function createRateLimiter(perSecond: number, burst: number): RateLimiter {
+  let tokens = burst
+  let last = performance.now()
+
+  return {
+    take() {
+      const now = performance.now()
+      tokens = Math.min(burst, tokens + (now - last) / 1000 * perSecond)
+      last = now
+      if (tokens < 1) return false
+      tokens -= 1
+      return true
+    }
+  }
+}
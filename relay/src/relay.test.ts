@@ -0,0 +1,203 @@
+import assert from 'node:assert/strict'
+import { after, before, describe, test } from 'node:test'
+import { WebSocket } from 'ws'
+import type { ClientMessage, PresenceState, ServerMessage } from '../../shared/presence.ts'
+import type { Authenticator } from './auth.ts'
+import { createRelay, type Relay, type RelayOptions } from './relay.ts'
+
+// Runs the relay on a free local port with a stub authenticator: tokens are
+// handles, 'bad' is rejected. Nothing leaves the machine.
+
+const authenticate: Authenticator = async (token) => {
+  if (token === 'bad') throw new Error('bad signature')
+  return { did: `did:plc:${token}`, handle: `${token}.test` }
+}
+
+const STATE: PresenceState = { x: 1, y: 0, z: 2, rotation: 0.5 }
+
+interface Client {
+  send(message: ClientMessage | Record<string, unknown>): void
+  // Next message of that type - earlier messages of other types are skipped
+  next<T extends ServerMessage['type']>(type: T): Promise<Extract<ServerMessage, { type: T }>>
+  // Everything received so far, including what next() has gone past
+  received: ServerMessage[]
+  closed: Promise<number>
+  close(): void
+}
+
+function connect(relay: Relay): Promise<Client> {
+  const socket = new WebSocket(`ws://127.0.0.1:${relay.port}`)
+  const received: ServerMessage[] = []
+  let read = 0
+  let waiting: (() => void) | null = null
+
+  socket.on('message', data => {
+    received.push(JSON.parse(data.toString()))
+    waiting?.()
+  })
+  const closed = new Promise<number>(resolve => socket.on('close', code => resolve(code)))
+
+  const client: Client = {
+    send: message => socket.send(JSON.stringify(message)),
+    async next(type) {
+      for (;;) {
+        const index = received.findIndex((message, i) => i >= read && message.type === type)
+        if (index >= 0) {
+          read = index + 1
+          return received[index] as Extract<ServerMessage, { type: typeof type }>
+        }
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(() => reject(new Error(`Timed out waiting for ${type}`)), 2000)
+          waiting = () => {
+            clearTimeout(timer)
+            waiting = null
+            resolve()
+          }
+        })
+      }
+    },
+    received,
+    closed,
+    close: () => socket.close()
+  }
+
+  return new Promise((resolve, reject) => {
+    socket.once('open', () => resolve(client))
+    socket.once('error', reject)
+  })
+}
+
+async function joined(relay: Relay, token: string, world: 'cyber' | 'fantasy' = 'cyber') {
+  const client = await connect(relay)
+  client.send({ type: 'auth', token })
+  await client.next('authed')
+  client.send({ type: 'join', world, avatar: { headShape: 'round' }, state: STATE })
+  return client
+}
+
+function withRelay(options: Partial<RelayOptions>, run: (relay: () => Relay) => void) {
+  let relay: Relay
+  before(async () => {
+    relay = await createRelay({ port: 0, host: '127.0.0.1', authenticate, ...options })
+  })
+  after(() => relay.close())
+  run(() => relay)
+}
+
+describe('relay', () => {
+  withRelay({ authTimeoutMs: 200 }, relay => {
+    test('rejects messages before a token is sent', async () => {
+      const client = await connect(relay())
+      client.send({ type: 'join', world: 'cyber', avatar: null, state: STATE })
+      const error = await client.next('error')
+      assert.equal(error.code, 'unauthorized')
+      assert.ok(!client.received.some(message => message.type === 'welcome'))
+      client.close()
+    })
+
+    test('closes connections that never send a token', async () => {
+      const client = await connect(relay())
+      assert.equal(await client.closed, 4001)
+    })
+
+    test('closes with 4001 on a bad token', async () => {
+      const client = await connect(relay())
+      client.send({ type: 'auth', token: 'bad' })
+      assert.equal((await client.next('error')).code, 'unauthorized')
+      assert.equal(await client.closed, 4001)
+    })
+
+    test('welcomes joiners and tells the room', async () => {
+      const alice = await joined(relay(), 'alice')
+      const aliceWelcome = await alice.next('welcome')
+      assert.deepEqual(aliceWelcome.peers, [])
+
+      const bob = await joined(relay(), 'bob')
+      const bobWelcome = await bob.next('welcome')
+      assert.equal(bobWelcome.peers.length, 1)
+      assert.equal(bobWelcome.peers[0].did, 'did:plc:alice')
+      assert.deepEqual(bobWelcome.peers[0].state, STATE)
+
+      // Identity comes from the token, not the client
+      const { peer } = await alice.next('peer-joined')
+      assert.equal(peer.id, bobWelcome.id)
+      assert.equal(peer.did, 'did:plc:bob')
+      assert.equal(peer.handle, 'bob.test')
+
+      alice.close()
+      bob.close()
+    })
+
+    test('broadcasts state to the rest of the room', async () => {
+      const alice = await joined(relay(), 'alice')
+      await alice.next('welcome')
+      const bob = await joined(relay(), 'bob')
+      const { id } = await bob.next('welcome')
+      await alice.next('peer-joined')
+
+      const moved = { x: 5, y: 1, z: -3, rotation: 2 }
+      bob.send({ type: 'state', state: { ...moved, extra: 'dropped' } })
+      const update = await alice.next('peer-state')
+      assert.equal(update.id, id)
+      assert.deepEqual(update.state, moved)
+
+      alice.close()
+      bob.close()
+    })
+
+    test('drops states and rejects emotes over the rate limit', async () => {
+      const alice = await joined(relay(), 'alice')
+      await alice.next('welcome')
+      const bob = await joined(relay(), 'bob')
+      await bob.next('welcome')
+      await alice.next('peer-joined')
+
+      for (let i = 0; i < 40; i++) bob.send({ type: 'state', state: { ...STATE, x: i } })
+      for (let i = 0; i < 5; i++) bob.send({ type: 'emote', emote: 'wave' })
+      // Avatars have their own limit - once it arrives, everything before it has too
+      bob.send({ type: 'avatar', avatar: { headShape: 'oval' } })
+      await alice.next('peer-avatar')
+
+      const states = alice.received.filter(message => message.type === 'peer-state')
+      const emotes = alice.received.filter(message => message.type === 'peer-emote')
+      assert.ok(states.length > 0 && states.length < 40, `${states.length} states got through`)
+      assert.equal(emotes.length, 3)
+
+      // States are dropped quietly, emotes get an error. The states went
+      // first, so the first errors would be theirs.
+      for (let i = 0; i < 2; i++) {
+        const error = await bob.next('error')
+        assert.equal(error.code, 'rate-limited')
+        assert.match(error.message, /emote/)
+      }
+
+      alice.close()
+      bob.close()
+    })
+
+    test('rejects unknown emotes', async () => {
+      const alice = await joined(relay(), 'alice')
+      await alice.next('welcome')
+      alice.send({ type: 'emote', emote: 'constructor' })
+      assert.equal((await alice.next('error')).code, 'bad-message')
+      alice.close()
+    })
+  })
+
+  withRelay({ maxRoomSize: 1 }, relay => {
+    test('turns joiners away from a full room', async () => {
+      const alice = await joined(relay(), 'alice')
+      await alice.next('welcome')
+
+      const bob = await joined(relay(), 'bob')
+      assert.equal((await bob.next('error')).code, 'room-full')
+
+      // The other world still has room
+      bob.send({ type: 'join', world: 'fantasy', avatar: null, state: STATE })
+      assert.equal((await bob.next('welcome')).world, 'fantasy')
+
+      alice.close()
+      bob.close()
+    })
+  })
+})
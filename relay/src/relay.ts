@@ -0,0 +1,269 @@
+import { randomUUID } from 'node:crypto'
+import { WebSocketServer, type WebSocket } from 'ws'
+import {
+  PRESENCE_EMOTES,
+  PRESENCE_WORLDS,
+  type ClientMessage,
+  type PresenceEmote,
+  type PresenceErrorCode,
+  type PresencePeer,
+  type PresenceState,
+  type PresenceWorld,
+  type ServerMessage
+} from '../../shared/presence.ts'
+import type { Authenticator, Identity } from './auth.ts'
+import { createRateLimiter, type RateLimiter } from './rateLimit.ts'
+
+// Presence relay for bskyplace: one room per world, every message from a
+// client is fanned out to the others in its room. The relay keeps each
+// peer's latest state so late joiners see everyone immediately.
+
+export interface RelayOptions {
+  port: number
+  host?: string
+  // Checks the token from a client's auth message
+  authenticate: Authenticator
+  maxRoomSize?: number
+  // Sockets that haven't authenticated by then are closed
+  authTimeoutMs?: number
+}
+
+export interface Relay {
+  port: number
+  close(): Promise<void>
+}
+
+interface Connection {
+  id: string
+  socket: WebSocket
+  identity: Identity | null
+  // One auth attempt at a time - each one may hit the network
+  authenticating: boolean
+  world: PresenceWorld | null
+  peer: PresencePeer | null
+  limits: Record<Exclude<ClientMessage['type'], 'auth'>, RateLimiter>
+}
+
+// Avatars are forwarded as-is; this only keeps someone from flooding a room
+const MAX_MESSAGE_BYTES = 16 * 1024
+const DEFAULT_MAX_ROOM_SIZE = 50
+const DEFAULT_AUTH_TIMEOUT_MS = 10_000
+// Close code for failed or missing auth (4000-4999 are app-defined)
+const CLOSE_UNAUTHORIZED = 4001
+
+// Just the four numbers, or null if any of them is missing
+function readState(value: unknown): PresenceState | null {
+  const state = value as Record<string, unknown> | null
+  if (!state || typeof state !== 'object') return null
+  const { x, y, z, rotation } = state
+  const numbers = [x, y, z, rotation]
+  return numbers.every(n => typeof n === 'number' && Number.isFinite(n))
+    ? { x: x as number, y: y as number, z: z as number, rotation: rotation as number }
+    : null
+}
+
+// Messages come from the network - check the shape before trusting it
+export function parseClientMessage(data: string): ClientMessage | null {
+  let value: unknown
+  try {
+    value = JSON.parse(data)
+  } catch {
+    return null
+  }
+  if (!value || typeof value !== 'object') return null
+  const message = value as Record<string, unknown>
+
+  // Rebuilt field by field so nothing unexpected gets forwarded
+  switch (message.type) {
+    case 'auth':
+      return typeof message.token === 'string' ? { type: 'auth', token: message.token } : null
+    case 'join': {
+      const state = readState(message.state)
+      return PRESENCE_WORLDS.includes(message.world as PresenceWorld) && state
+        ? { type: 'join', world: message.world as PresenceWorld, avatar: message.avatar, state }
+        : null
+    }
+    case 'state': {
+      const state = readState(message.state)
+      return state ? { type: 'state', state } : null
+    }
+    case 'emote':
+      return PRESENCE_EMOTES.includes(message.emote as PresenceEmote)
+        ? { type: 'emote', emote: message.emote as PresenceEmote }
+        : null
+    case 'avatar':
+      return message.avatar && typeof message.avatar === 'object' ? { type: 'avatar', avatar: message.avatar } : null
+    default:
+      return null
+  }
+}
+
+// Clients send state every 100ms - leave headroom for jitter, not for floods
+function createLimits(): Connection['limits'] {
+  return {
+    join: createRateLimiter(1, 3),
+    state: createRateLimiter(15, 15),
+    emote: createRateLimiter(1, 3),
+    avatar: createRateLimiter(0.2, 2)
+  }
+}
+
+export function createRelay(options: RelayOptions): Promise<Relay> {
+  const maxRoomSize = options.maxRoomSize ?? DEFAULT_MAX_ROOM_SIZE
+  const authTimeoutMs = options.authTimeoutMs ?? DEFAULT_AUTH_TIMEOUT_MS
+  const rooms = new Map<PresenceWorld, Map<string, Connection>>(PRESENCE_WORLDS.map(world => [world, new Map()]))
+  const server = new WebSocketServer({ port: options.port, host: options.host, maxPayload: MAX_MESSAGE_BYTES })
+
+  function send(connection: Connection, message: ServerMessage) {
+    if (connection.socket.readyState === connection.socket.OPEN) {
+      connection.socket.send(JSON.stringify(message))
+    }
+  }
+
+  function sendError(connection: Connection, code: PresenceErrorCode, message: string) {
+    send(connection, { type: 'error', code, message })
+  }
+
+  function broadcast(world: PresenceWorld, message: ServerMessage, except: string) {
+    rooms.get(world)!.forEach(connection => {
+      if (connection.id !== except) send(connection, message)
+    })
+  }
+
+  function leaveRoom(connection: Connection) {
+    if (!connection.world) return
+    rooms.get(connection.world)!.delete(connection.id)
+    broadcast(connection.world, { type: 'peer-left', id: connection.id }, connection.id)
+    connection.world = null
+    connection.peer = null
+  }
+
+  async function handleAuth(connection: Connection, token: string) {
+    if (connection.identity || connection.authenticating) {
+      sendError(connection, 'bad-message', 'Already authenticated')
+      return
+    }
+    connection.authenticating = true
+    try {
+      connection.identity = await options.authenticate(token)
+    } catch (err) {
+      sendError(connection, 'unauthorized', `Authentication failed: ${err instanceof Error ? err.message : 'invalid token'}`)
+      connection.socket.close(CLOSE_UNAUTHORIZED, 'Unauthorized')
+      return
+    } finally {
+      connection.authenticating = false
+    }
+    send(connection, { type: 'authed', ...connection.identity })
+  }
+
+  function handleMessage(connection: Connection, message: ClientMessage) {
+    if (message.type === 'auth') {
+      handleAuth(connection, message.token)
+      return
+    }
+
+    if (!connection.identity) {
+      sendError(connection, 'unauthorized', 'Authenticate first')
+      return
+    }
+
+    // Everything but join needs a room
+    if (message.type !== 'join' && (!connection.world || !connection.peer)) {
+      sendError(connection, 'bad-message', 'Join a world first')
+      return
+    }
+
+    if (!connection.limits[message.type].take()) {
+      // Dropped states are harmless - the next one catches up
+      if (message.type !== 'state') sendError(connection, 'rate-limited', `Too many ${message.type} messages`)
+      return
+    }
+
+    switch (message.type) {
+      case 'join': {
+        const room = rooms.get(message.world)!
+        if (connection.world !== message.world && room.size >= maxRoomSize) {
+          sendError(connection, 'room-full', `The ${message.world} world is full`)
+          return
+        }
+        // Joining again (switching worlds) moves the connection
+        leaveRoom(connection)
+        connection.world = message.world
+        connection.peer = {
+          id: connection.id,
+          did: connection.identity.did,
+          handle: connection.identity.handle,
+          avatar: message.avatar,
+          state: message.state
+        }
+        send(connection, {
+          type: 'welcome',
+          id: connection.id,
+          world: message.world,
+          peers: [...room.values()].map(other => other.peer!)
+        })
+        room.set(connection.id, connection)
+        broadcast(message.world, { type: 'peer-joined', peer: connection.peer }, connection.id)
+        break
+      }
+
+      case 'state':
+        connection.peer!.state = message.state
+        broadcast(connection.world!, { type: 'peer-state', id: connection.id, state: message.state }, connection.id)
+        break
+
+      case 'emote':
+        broadcast(connection.world!, { type: 'peer-emote', id: connection.id, emote: message.emote }, connection.id)
+        break
+
+      case 'avatar':
+        connection.peer!.avatar = message.avatar
+        broadcast(connection.world!, { type: 'peer-avatar', id: connection.id, avatar: message.avatar }, connection.id)
+        break
+    }
+  }
+
+  server.on('connection', socket => {
+    const connection: Connection = {
+      id: randomUUID(),
+      socket,
+      identity: null,
+      authenticating: false,
+      world: null,
+      peer: null,
+      limits: createLimits()
+    }
+
+    const authTimeout = setTimeout(() => {
+      if (!connection.identity) socket.close(CLOSE_UNAUTHORIZED, 'Authentication timed out')
+    }, authTimeoutMs)
+
+    socket.on('message', data => {
+      const message = parseClientMessage(data.toString())
+      if (!message) {
+        sendError(connection, 'bad-message', 'Malformed message')
+        return
+      }
+      handleMessage(connection, message)
+    })
+
+    socket.on('close', () => {
+      clearTimeout(authTimeout)
+      leaveRoom(connection)
+    })
+  })
+
+  return new Promise((resolve, reject) => {
+    server.once('error', reject)
+    server.once('listening', () => {
+      const address = server.address()
+      resolve({
+        port: typeof address === 'object' && address ? address.port : options.port,
+        close: () => new Promise(done => {
+          server.clients.forEach(client => client.terminate())
+          server.close(() => done())
+        })
+      })
+    })
+  })
+}
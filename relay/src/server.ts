@@ -0,0 +1,26 @@
+import { createServiceAuthVerifier } from './auth.ts'
+import { createRelay } from './relay.ts'
+
+// Entry point: `npm run dev` in relay/, then point bskyplace at it with
+// VITE_PRESENCE_URL (defaults to ws://localhost:8787). RELAY_DID must match
+// the aud bskyplace requests tokens for (VITE_PRESENCE_DID).
+
+const port = Number(process.env.PORT ?? 8787)
+const host = process.env.HOST ?? 'localhost'
+const serviceDid = process.env.RELAY_DID ?? 'did:web:localhost'
+const maxRoomSize = Number(process.env.MAX_ROOM_SIZE ?? 50)
+
+const relay = await createRelay({
+  port,
+  host,
+  authenticate: createServiceAuthVerifier({ serviceDid, plcUrl: process.env.PLC_URL }),
+  maxRoomSize
+})
+console.log(`bskyplace relay listening on ws://${host}:${relay.port} as ${serviceDid}`)
+
+for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+  process.on(signal, async () => {
+    await relay.close()
+    process.exit(0)
+  })
+}
@@ -0,0 +1,820 @@
+import * as THREE from 'three'
+
+// Shared avatar model + geometry builders.
+// bskatar (the editor) and bskyplace (the world) both render avatars through
+// this module so the avatar you design is exactly the one that walks around.
+
+// Avatar state - this is what we store in Bluesky
+export interface AvatarConfig {
+  headShape: 'round' | 'oval' | 'square'
+  headColor: string
+  hairStyle: 'none' | 'short' | 'spiky' | 'bob' | 'ponytail'
+  hairColor: string
+  eyeStyle: 'dots' | 'wide' | 'sleepy' | 'sparkle'
+  eyeColor: string
+  eyebrowStyle: 'none' | 'normal' | 'angry' | 'worried' | 'thick'
+  noseStyle: 'none' | 'small' | 'round' | 'pointed'
+  mouthStyle: 'smile' | 'neutral' | 'open' | 'cat' | 'surprised'
+  hasBlush: boolean
+  // Body
+  outfitStyle: 'tshirt' | 'hoodie' | 'dress' | 'overalls'
+  topColor: string
+  bottomColor: string
+  // Accessory slots
+  hatStyle: 'none' | 'cap' | 'beanie' | 'tophat' | 'crown'
+  glassesStyle: 'none' | 'round' | 'square' | 'shades'
+  backpackStyle: 'none' | 'backpack' | 'jetpack'
+}
+
+export const DEFAULT_AVATAR_CONFIG: AvatarConfig = {
+  headShape: 'round',
+  headColor: '#ffccaa',
+  hairStyle: 'short',
+  hairColor: '#4a3728',
+  eyeStyle: 'dots',
+  eyeColor: '#333333',
+  eyebrowStyle: 'normal',
+  noseStyle: 'small',
+  mouthStyle: 'smile',
+  hasBlush: true,
+  outfitStyle: 'tshirt',
+  topColor: '#4299e1',
+  bottomColor: '#2d3748',
+  hatStyle: 'none',
+  glassesStyle: 'none',
+  backpackStyle: 'none'
+}
+
+export function avatarConfigsEqual(a: AvatarConfig, b: AvatarConfig): boolean {
+  return (Object.keys(DEFAULT_AVATAR_CONFIG) as (keyof AvatarConfig)[]).every(key => a[key] === b[key])
+}
+
+// Level of detail - 'low' halves the curve segments for small/low-res views
+export type AvatarLOD = 'high' | 'low'
+
+export interface AvatarBuildOptions {
+  scale?: number
+  lod?: AvatarLOD
+  castShadow?: boolean
+  // Add the torso, outfit and backpack below the head
+  body?: boolean
+}
+
+// Segment count for curved geometry at the given LOD
+function seg(count: number, lod: AvatarLOD = 'high'): number {
+  return lod === 'low' ? Math.max(3, Math.ceil(count / 2)) : count
+}
+
+// Create material helper - using Lambert for low-poly look
+export function createMaterial(color: THREE.ColorRepresentation, options?: { transparent?: boolean; opacity?: number }): THREE.MeshLambertMaterial {
+  return new THREE.MeshLambertMaterial({
+    color: new THREE.Color(color),
+    flatShading: true,
+    transparent: options?.transparent,
+    opacity: options?.opacity
+  })
+}
+
+// Create low-poly head shapes
+export function createHead(shape: AvatarConfig['headShape'], color: string, lod: AvatarLOD = 'high'): THREE.Mesh {
+  let geometry: THREE.BufferGeometry
+  const detail = lod === 'low' ? 0 : 1
+
+  switch (shape) {
+    case 'round':
+      geometry = new THREE.IcosahedronGeometry(1, detail)
+      break
+    case 'oval':
+      geometry = new THREE.IcosahedronGeometry(1, detail)
+      geometry.scale(0.85, 1.1, 0.9)
+      break
+    case 'square': {
+      geometry = new THREE.BoxGeometry(1.6, 1.8, 1.5, 2, 2, 2)
+      // Pull vertices toward the unit sphere to round off the corners
+      const positions = geometry.attributes.position
+      for (let i = 0; i < positions.count; i++) {
+        const x = positions.getX(i)
+        const y = positions.getY(i)
+        const z = positions.getZ(i)
+        const length = Math.sqrt(x*x + y*y + z*z)
+        const factor = 0.15
+        positions.setXYZ(
+          i,
+          x + (x/length - x) * factor,
+          y + (y/length - y) * factor,
+          z + (z/length - z) * factor
+        )
+      }
+      break
+    }
+    default:
+      geometry = new THREE.IcosahedronGeometry(1, detail)
+  }
+
+  return new THREE.Mesh(geometry, createMaterial(color))
+}
+
+// Create hair
+export function createHair(style: AvatarConfig['hairStyle'], color: string, lod: AvatarLOD = 'high'): THREE.Group {
+  const hairGroup = new THREE.Group()
+  if (style === 'none') return hairGroup
+
+  const hairMaterial = createMaterial(color)
+
+  switch (style) {
+    case 'short': {
+      // Simple cap of hair on top
+      const capGeom = new THREE.SphereGeometry(1.05, seg(8, lod), seg(6, lod), 0, Math.PI * 2, 0, Math.PI * 0.45)
+      const cap = new THREE.Mesh(capGeom, hairMaterial)
+      cap.position.y = 0.15
+      hairGroup.add(cap)
+
+      // Add some chunky bangs
+      const bangGeom = new THREE.BoxGeometry(0.8, 0.15, 0.3, 2, 1, 1)
+      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
+      bangs.position.set(0, 0.75, 0.7)
+      bangs.rotation.x = 0.3
+      hairGroup.add(bangs)
+      break
+    }
+
+    case 'spiky': {
+      // Multiple spikes pointing up
+      const spikeGeom = new THREE.ConeGeometry(0.15, 0.5, 4)
+      const spikePositions = [
+        { x: 0, y: 1.1, z: 0, rotX: 0, rotZ: 0 },
+        { x: 0.3, y: 1.0, z: 0.1, rotX: 0.2, rotZ: -0.3 },
+        { x: -0.3, y: 1.0, z: 0.1, rotX: 0.2, rotZ: 0.3 },
+        { x: 0.15, y: 1.05, z: -0.2, rotX: -0.2, rotZ: -0.15 },
+        { x: -0.15, y: 1.05, z: -0.2, rotX: -0.2, rotZ: 0.15 },
+        { x: 0, y: 0.95, z: 0.35, rotX: 0.5, rotZ: 0 },
+        { x: 0.4, y: 0.85, z: 0.2, rotX: 0.3, rotZ: -0.5 },
+        { x: -0.4, y: 0.85, z: 0.2, rotX: 0.3, rotZ: 0.5 },
+      ]
+      spikePositions.forEach(pos => {
+        const spike = new THREE.Mesh(spikeGeom, hairMaterial)
+        spike.position.set(pos.x, pos.y, pos.z)
+        spike.rotation.x = pos.rotX
+        spike.rotation.z = pos.rotZ
+        hairGroup.add(spike)
+      })
+      break
+    }
+
+    case 'bob': {
+      // Rounded bob haircut
+      const bobGeom = new THREE.SphereGeometry(1.1, seg(8, lod), seg(6, lod))
+      bobGeom.scale(1, 0.9, 0.95)
+      const bob = new THREE.Mesh(bobGeom, hairMaterial)
+      bob.position.y = 0.2
+      hairGroup.add(bob)
+
+      // Side pieces
+      const sideGeom = new THREE.CapsuleGeometry(0.25, 0.4, 4, seg(8, lod))
+      const leftSide = new THREE.Mesh(sideGeom, hairMaterial)
+      leftSide.position.set(-0.85, -0.1, 0.2)
+      leftSide.rotation.z = 0.15
+      const rightSide = new THREE.Mesh(sideGeom, hairMaterial)
+      rightSide.position.set(0.85, -0.1, 0.2)
+      rightSide.rotation.z = -0.15
+      hairGroup.add(leftSide, rightSide)
+
+      // Bangs
+      const bangGeom = new THREE.BoxGeometry(0.9, 0.2, 0.25, 2, 1, 1)
+      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
+      bangs.position.set(0, 0.7, 0.75)
+      bangs.rotation.x = 0.4
+      hairGroup.add(bangs)
+      break
+    }
+
+    case 'ponytail': {
+      // Top bun/cap
+      const capGeom = new THREE.SphereGeometry(1.05, seg(8, lod), seg(6, lod), 0, Math.PI * 2, 0, Math.PI * 0.5)
+      const cap = new THREE.Mesh(capGeom, hairMaterial)
+      cap.position.y = 0.1
+      hairGroup.add(cap)
+
+      // Ponytail at back
+      const tailGeom = new THREE.CapsuleGeometry(0.2, 0.7, 4, seg(8, lod))
+      const tail = new THREE.Mesh(tailGeom, hairMaterial)
+      tail.position.set(0, 0.3, -0.9)
+      tail.rotation.x = 0.6
+      hairGroup.add(tail)
+
+      // Hair tie
+      const tieGeom = new THREE.TorusGeometry(0.15, 0.05, 6, seg(8, lod))
+      const tieMaterial = createMaterial('#ff6b6b')
+      const tie = new THREE.Mesh(tieGeom, tieMaterial)
+      tie.position.set(0, 0.6, -0.85)
+      tie.rotation.x = Math.PI / 2 + 0.3
+      hairGroup.add(tie)
+
+      // Bangs
+      const bangGeom = new THREE.BoxGeometry(0.7, 0.15, 0.25, 2, 1, 1)
+      const bangs = new THREE.Mesh(bangGeom, hairMaterial)
+      bangs.position.set(0, 0.75, 0.7)
+      bangs.rotation.x = 0.3
+      hairGroup.add(bangs)
+      break
+    }
+  }
+
+  return hairGroup
+}
+
+// Create eyebrows
+export function createEyebrows(style: AvatarConfig['eyebrowStyle'], color: string): THREE.Group {
+  const browGroup = new THREE.Group()
+  if (style === 'none') return browGroup
+
+  const browMaterial = createMaterial(color)
+  const eyeSpacing = 0.35
+  const browY = 0.4
+  const browZ = 0.82
+
+  switch (style) {
+    case 'normal': {
+      const browGeom = new THREE.BoxGeometry(0.2, 0.04, 0.05, 1, 1, 1)
+      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
+      leftBrow.position.set(-eyeSpacing, browY, browZ)
+      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
+      rightBrow.position.set(eyeSpacing, browY, browZ)
+      browGroup.add(leftBrow, rightBrow)
+      break
+    }
+
+    case 'angry': {
+      const browGeom = new THREE.BoxGeometry(0.22, 0.05, 0.05, 1, 1, 1)
+      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
+      leftBrow.position.set(-eyeSpacing, browY, browZ)
+      leftBrow.rotation.z = 0.4 // Angled down toward center
+      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
+      rightBrow.position.set(eyeSpacing, browY, browZ)
+      rightBrow.rotation.z = -0.4
+      browGroup.add(leftBrow, rightBrow)
+      break
+    }
+
+    case 'worried': {
+      const browGeom = new THREE.BoxGeometry(0.22, 0.05, 0.05, 1, 1, 1)
+      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
+      leftBrow.position.set(-eyeSpacing, browY, browZ)
+      leftBrow.rotation.z = -0.35 // Angled up toward center
+      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
+      rightBrow.position.set(eyeSpacing, browY, browZ)
+      rightBrow.rotation.z = 0.35
+      browGroup.add(leftBrow, rightBrow)
+      break
+    }
+
+    case 'thick': {
+      const browGeom = new THREE.BoxGeometry(0.25, 0.08, 0.06, 1, 1, 1)
+      const leftBrow = new THREE.Mesh(browGeom, browMaterial)
+      leftBrow.position.set(-eyeSpacing, browY, browZ)
+      const rightBrow = new THREE.Mesh(browGeom, browMaterial)
+      rightBrow.position.set(eyeSpacing, browY, browZ)
+      browGroup.add(leftBrow, rightBrow)
+      break
+    }
+  }
+
+  return browGroup
+}
+
+// Create nose
+export function createNose(style: AvatarConfig['noseStyle'], headColor: string, lod: AvatarLOD = 'high'): THREE.Group {
+  const noseGroup = new THREE.Group()
+  if (style === 'none') return noseGroup
+
+  // Nose is slightly darker than head
+  const noseColor = new THREE.Color(headColor).multiplyScalar(0.9)
+  const noseMaterial = createMaterial(noseColor)
+
+  const noseY = -0.05
+  const noseZ = 0.95
+
+  switch (style) {
+    case 'small': {
+      const noseGeom = new THREE.SphereGeometry(0.06, seg(6, lod), seg(4, lod))
+      const nose = new THREE.Mesh(noseGeom, noseMaterial)
+      nose.position.set(0, noseY, noseZ)
+      noseGroup.add(nose)
+      break
+    }
+
+    case 'round': {
+      const noseGeom = new THREE.SphereGeometry(0.1, seg(6, lod), seg(4, lod))
+      noseGeom.scale(1, 0.8, 0.7)
+      const nose = new THREE.Mesh(noseGeom, noseMaterial)
+      nose.position.set(0, noseY, noseZ)
+      noseGroup.add(nose)
+      break
+    }
+
+    case 'pointed': {
+      const noseGeom = new THREE.ConeGeometry(0.06, 0.15, 4)
+      noseGeom.rotateX(-Math.PI / 2)
+      const nose = new THREE.Mesh(noseGeom, noseMaterial)
+      nose.position.set(0, noseY, noseZ + 0.05)
+      noseGroup.add(nose)
+      break
+    }
+  }
+
+  return noseGroup
+}
+
+// Create eyes
+export function createEyes(style: AvatarConfig['eyeStyle'], color: string, lod: AvatarLOD = 'high'): THREE.Group {
+  const eyeGroup = new THREE.Group()
+  const eyeMaterial = createMaterial(color)
+  const whiteMaterial = createMaterial(0xffffff)
+
+  const eyeSpacing = 0.35
+  const eyeY = 0.15
+  const eyeZ = 0.85
+
+  switch (style) {
+    case 'dots': {
+      const dotGeom = new THREE.SphereGeometry(0.08, seg(8, lod), seg(6, lod))
+      const leftDot = new THREE.Mesh(dotGeom, eyeMaterial)
+      leftDot.position.set(-eyeSpacing, eyeY, eyeZ)
+      const rightDot = new THREE.Mesh(dotGeom, eyeMaterial)
+      rightDot.position.set(eyeSpacing, eyeY, eyeZ)
+      eyeGroup.add(leftDot, rightDot)
+      break
+    }
+
+    case 'wide': {
+      const wideWhiteGeom = new THREE.SphereGeometry(0.15, seg(8, lod), seg(6, lod))
+      const widePupilGeom = new THREE.SphereGeometry(0.08, seg(8, lod), seg(6, lod))
+
+      const leftWhite = new THREE.Mesh(wideWhiteGeom, whiteMaterial)
+      leftWhite.position.set(-eyeSpacing, eyeY, eyeZ - 0.05)
+      const leftPupil = new THREE.Mesh(widePupilGeom, eyeMaterial)
+      leftPupil.position.set(-eyeSpacing, eyeY, eyeZ + 0.08)
+
+      const rightWhite = new THREE.Mesh(wideWhiteGeom, whiteMaterial)
+      rightWhite.position.set(eyeSpacing, eyeY, eyeZ - 0.05)
+      const rightPupil = new THREE.Mesh(widePupilGeom, eyeMaterial)
+      rightPupil.position.set(eyeSpacing, eyeY, eyeZ + 0.08)
+
+      eyeGroup.add(leftWhite, leftPupil, rightWhite, rightPupil)
+      break
+    }
+
+    case 'sleepy': {
+      const sleepyGeom = new THREE.CapsuleGeometry(0.04, 0.12, 4, seg(8, lod))
+      sleepyGeom.rotateZ(Math.PI / 2)
+      const leftSleepy = new THREE.Mesh(sleepyGeom, eyeMaterial)
+      leftSleepy.position.set(-eyeSpacing, eyeY, eyeZ)
+      leftSleepy.scale.y = 0.5
+      const rightSleepy = new THREE.Mesh(sleepyGeom, eyeMaterial)
+      rightSleepy.position.set(eyeSpacing, eyeY, eyeZ)
+      rightSleepy.scale.y = 0.5
+      eyeGroup.add(leftSleepy, rightSleepy)
+      break
+    }
+
+    case 'sparkle': {
+      // Big shiny anime eyes
+      const whiteGeom = new THREE.SphereGeometry(0.16, seg(8, lod), seg(6, lod))
+      const pupilGeom = new THREE.SphereGeometry(0.1, seg(8, lod), seg(6, lod))
+      const shineGeom = new THREE.SphereGeometry(0.04, seg(6, lod), seg(4, lod))
+      const shineMaterial = createMaterial(0xffffff)
+
+      // Left eye
+      const leftWhite = new THREE.Mesh(whiteGeom, whiteMaterial)
+      leftWhite.position.set(-eyeSpacing, eyeY, eyeZ - 0.05)
+      const leftPupil = new THREE.Mesh(pupilGeom, eyeMaterial)
+      leftPupil.position.set(-eyeSpacing, eyeY, eyeZ + 0.06)
+      const leftShine = new THREE.Mesh(shineGeom, shineMaterial)
+      leftShine.position.set(-eyeSpacing + 0.05, eyeY + 0.05, eyeZ + 0.12)
+
+      // Right eye
+      const rightWhite = new THREE.Mesh(whiteGeom, whiteMaterial)
+      rightWhite.position.set(eyeSpacing, eyeY, eyeZ - 0.05)
+      const rightPupil = new THREE.Mesh(pupilGeom, eyeMaterial)
+      rightPupil.position.set(eyeSpacing, eyeY, eyeZ + 0.06)
+      const rightShine = new THREE.Mesh(shineGeom, shineMaterial)
+      rightShine.position.set(eyeSpacing + 0.05, eyeY + 0.05, eyeZ + 0.12)
+
+      eyeGroup.add(leftWhite, leftPupil, leftShine, rightWhite, rightPupil, rightShine)
+      break
+    }
+  }
+
+  return eyeGroup
+}
+
+// Create mouth
+export function createMouth(style: AvatarConfig['mouthStyle'], lod: AvatarLOD = 'high'): THREE.Group {
+  const mouthGroup = new THREE.Group()
+  const mouthMaterial = createMaterial(0x333333)
+  const tongueMaterial = createMaterial(0xff6b6b)
+
+  const mouthY = -0.25
+  const mouthZ = 0.9
+
+  switch (style) {
+    case 'smile': {
+      const smileGeom = new THREE.TorusGeometry(0.15, 0.025, seg(8, lod), seg(12, lod), Math.PI)
+      smileGeom.rotateX(Math.PI)
+      smileGeom.rotateZ(Math.PI)
+      const smile = new THREE.Mesh(smileGeom, mouthMaterial)
+      smile.position.set(0, mouthY, mouthZ)
+      mouthGroup.add(smile)
+      break
+    }
+
+    case 'neutral': {
+      const lineGeom = new THREE.CapsuleGeometry(0.02, 0.2, 4, seg(8, lod))
+      lineGeom.rotateZ(Math.PI / 2)
+      const line = new THREE.Mesh(lineGeom, mouthMaterial)
+      line.position.set(0, mouthY, mouthZ)
+      mouthGroup.add(line)
+      break
+    }
+
+    case 'open': {
+      const openGeom = new THREE.SphereGeometry(0.12, seg(8, lod), seg(6, lod))
+      openGeom.scale(1.3, 0.8, 0.5)
+      const openMouth = new THREE.Mesh(openGeom, mouthMaterial)
+      openMouth.position.set(0, mouthY, mouthZ)
+
+      const tongueGeom = new THREE.SphereGeometry(0.06, seg(6, lod), seg(4, lod))
+      tongueGeom.scale(1, 0.6, 0.5)
+      const tongue = new THREE.Mesh(tongueGeom, tongueMaterial)
+      tongue.position.set(0, mouthY - 0.05, mouthZ + 0.02)
+
+      mouthGroup.add(openMouth, tongue)
+      break
+    }
+
+    case 'cat': {
+      // Cat-like :3 mouth
+      const leftGeom = new THREE.TorusGeometry(0.08, 0.02, 6, seg(8, lod), Math.PI)
+      leftGeom.rotateX(Math.PI)
+      leftGeom.rotateZ(Math.PI * 0.75)
+      const left = new THREE.Mesh(leftGeom, mouthMaterial)
+      left.position.set(-0.06, mouthY - 0.02, mouthZ)
+
+      const rightGeom = new THREE.TorusGeometry(0.08, 0.02, 6, seg(8, lod), Math.PI)
+      rightGeom.rotateX(Math.PI)
+      rightGeom.rotateZ(Math.PI * 0.25)
+      const right = new THREE.Mesh(rightGeom, mouthMaterial)
+      right.position.set(0.06, mouthY - 0.02, mouthZ)
+
+      mouthGroup.add(left, right)
+      break
+    }
+
+    case 'surprised': {
+      // O shaped surprised mouth
+      const oGeom = new THREE.TorusGeometry(0.1, 0.03, seg(8, lod), seg(12, lod))
+      const o = new THREE.Mesh(oGeom, mouthMaterial)
+      o.position.set(0, mouthY, mouthZ)
+      mouthGroup.add(o)
+      break
+    }
+  }
+
+  return mouthGroup
+}
+
+// Create blush marks
+export function createBlush(): THREE.Group {
+  const blushGroup = new THREE.Group()
+  const blushMaterial = createMaterial(0xffaaaa, { transparent: true, opacity: 0.6 })
+
+  const blushGeom = new THREE.CircleGeometry(0.1, 6)
+
+  const leftBlush = new THREE.Mesh(blushGeom, blushMaterial)
+  leftBlush.position.set(-0.55, -0.05, 0.75)
+  leftBlush.rotation.y = -0.4
+
+  const rightBlush = new THREE.Mesh(blushGeom, blushMaterial)
+  rightBlush.position.set(0.55, -0.05, 0.75)
+  rightBlush.rotation.y = 0.4
+
+  blushGroup.add(leftBlush, rightBlush)
+  return blushGroup
+}
+
+// Top of each head shape, for placing hats
+const HEAD_TOP: Record<AvatarConfig['headShape'], number> = {
+  round: 1,
+  oval: 1.1,
+  square: 0.95
+}
+
+// Create a hat - cap and beanie follow the outfit's top color
+export function createHat(style: AvatarConfig['hatStyle'], headShape: AvatarConfig['headShape'], color: string, lod: AvatarLOD = 'high'): THREE.Group {
+  const hatGroup = new THREE.Group()
+  const top = HEAD_TOP[headShape]
+
+  switch (style) {
+    case 'cap': {
+      const material = createMaterial(color)
+      const domeGeom = new THREE.SphereGeometry(1.06, seg(12, lod), seg(6, lod), 0, Math.PI * 2, 0, Math.PI / 2)
+      const dome = new THREE.Mesh(domeGeom, material)
+      dome.position.y = top - 0.9
+      const brimGeom = new THREE.CylinderGeometry(0.55, 0.55, 0.05, seg(12, lod))
+      brimGeom.scale(1, 1, 0.8)
+      const brim = new THREE.Mesh(brimGeom, material)
+      brim.position.set(0, top - 0.8, 0.85)
+      brim.rotation.x = 0.15
+      hatGroup.add(dome, brim)
+      break
+    }
+
+    case 'beanie': {
+      const material = createMaterial(color)
+      const domeGeom = new THREE.SphereGeometry(1.08, seg(12, lod), seg(6, lod), 0, Math.PI * 2, 0, Math.PI / 2)
+      const dome = new THREE.Mesh(domeGeom, material)
+      dome.position.y = top - 0.85
+      const rimGeom = new THREE.TorusGeometry(1.03, 0.13, seg(6, lod), seg(16, lod))
+      const rim = new THREE.Mesh(rimGeom, material)
+      rim.position.y = top - 0.8
+      rim.rotation.x = Math.PI / 2
+      const pompomGeom = new THREE.IcosahedronGeometry(0.2, 0)
+      const pompom = new THREE.Mesh(pompomGeom, createMaterial(0xffffff))
+      pompom.position.y = top + 0.28
+      hatGroup.add(dome, rim, pompom)
+      break
+    }
+
+    case 'tophat': {
+      const material = createMaterial(0x1a1a2e)
+      const crownGeom = new THREE.CylinderGeometry(0.55, 0.6, 0.9, seg(12, lod))
+      const crown = new THREE.Mesh(crownGeom, material)
+      crown.position.y = top + 0.35
+      const brimGeom = new THREE.CylinderGeometry(0.95, 0.95, 0.06, seg(16, lod))
+      const brim = new THREE.Mesh(brimGeom, material)
+      brim.position.y = top - 0.08
+      const bandGeom = new THREE.CylinderGeometry(0.6, 0.61, 0.15, seg(12, lod))
+      const band = new THREE.Mesh(bandGeom, createMaterial(0xe53e3e))
+      band.position.y = top + 0.02
+      hatGroup.add(crown, brim, band)
+      break
+    }
+
+    case 'crown': {
+      const material = createMaterial(0xffd700)
+      const bandGeom = new THREE.CylinderGeometry(0.6, 0.55, 0.3, seg(10, lod))
+      const band = new THREE.Mesh(bandGeom, material)
+      band.position.y = top - 0.05
+      const spikeGeom = new THREE.ConeGeometry(0.12, 0.3, 4)
+      for (let i = 0; i < 5; i++) {
+        const angle = (i / 5) * Math.PI * 2
+        const spike = new THREE.Mesh(spikeGeom, material)
+        spike.position.set(Math.sin(angle) * 0.58, top + 0.22, Math.cos(angle) * 0.58)
+        hatGroup.add(spike)
+      }
+      hatGroup.add(band)
+      break
+    }
+  }
+
+  // Narrower heads get narrower hats
+  if (headShape === 'oval') hatGroup.scale.set(0.88, 1, 0.92)
+  return hatGroup
+}
+
+// Create glasses - sized to sit in front of every eye style
+export function createGlasses(style: AvatarConfig['glassesStyle'], lod: AvatarLOD = 'high'): THREE.Group {
+  const glassesGroup = new THREE.Group()
+  if (style === 'none') return glassesGroup
+
+  const frameMaterial = createMaterial(0x2d3748)
+  const eyeSpacing = 0.35
+  const eyeY = 0.15
+  const glassesZ = 0.97
+
+  for (const side of [-1, 1]) {
+    let lens: THREE.Mesh
+    if (style === 'shades') {
+      lens = new THREE.Mesh(new THREE.BoxGeometry(0.34, 0.2, 0.04), createMaterial(0x1a1a2e))
+    } else {
+      // A 4-segment torus is a square frame
+      const square = style === 'square'
+      lens = new THREE.Mesh(
+        new THREE.TorusGeometry(square ? 0.2 : 0.16, 0.025, seg(4, lod), square ? 4 : seg(16, lod)),
+        frameMaterial
+      )
+      if (square) lens.rotation.z = Math.PI / 4
+    }
+    lens.position.set(side * eyeSpacing, eyeY, glassesZ)
+
+    // Temple arm back to the ear
+    const armGeom = new THREE.BoxGeometry(0.03, 0.03, 0.7)
+    const arm = new THREE.Mesh(armGeom, frameMaterial)
+    arm.position.set(side * 0.62, eyeY, 0.62)
+    arm.rotation.y = side * -0.55
+
+    glassesGroup.add(lens, arm)
+  }
+
+  const bridgeGeom = new THREE.BoxGeometry(0.34, 0.03, 0.03)
+  const bridge = new THREE.Mesh(bridgeGeom, frameMaterial)
+  bridge.position.set(0, eyeY + 0.03, glassesZ + 0.02)
+  glassesGroup.add(bridge)
+
+  return glassesGroup
+}
+
+// Create the torso, arms and legs for an outfit (head-local units, head at y = 0)
+export function createBody(config: AvatarConfig, lod: AvatarLOD = 'high'): THREE.Group {
+  const bodyGroup = new THREE.Group()
+  const skin = createMaterial(config.headColor)
+  const top = createMaterial(config.topColor)
+  const bottom = createMaterial(config.bottomColor)
+  const shoes = createMaterial(0x4a5568)
+  const { outfitStyle } = config
+
+  // Torso
+  const torsoGeom = new THREE.CylinderGeometry(0.45, 0.55, 0.85, seg(8, lod))
+  const torso = new THREE.Mesh(torsoGeom, top)
+  torso.position.y = -1.45
+  bodyGroup.add(torso)
+
+  // Arms - long sleeves for the hoodie, bare arms with short sleeves otherwise
+  const longSleeves = outfitStyle === 'hoodie'
+  const armGeom = new THREE.CapsuleGeometry(0.13, 0.45, 2, seg(6, lod))
+  const sleeveGeom = new THREE.CylinderGeometry(0.17, 0.17, 0.22, seg(6, lod))
+  const handGeom = new THREE.IcosahedronGeometry(0.14, 0)
+  for (const side of [-1, 1]) {
+    // Pivots at the shoulder so emotes can swing it; named for that
+    const shoulder = new THREE.Group()
+    shoulder.name = side < 0 ? 'leftArm' : 'rightArm'
+    shoulder.position.set(side * 0.58, -1.18, 0)
+    bodyGroup.add(shoulder)
+
+    const arm = new THREE.Mesh(armGeom, longSleeves ? top : skin)
+    arm.position.set(side * 0.06, -0.32, 0)
+    arm.rotation.z = side * 0.2
+    shoulder.add(arm)
+
+    if (!longSleeves) {
+      const sleeve = new THREE.Mesh(sleeveGeom, top)
+      sleeve.position.set(side * 0.02, -0.07, 0)
+      sleeve.rotation.z = side * 0.2
+      shoulder.add(sleeve)
+    }
+
+    const hand = new THREE.Mesh(handGeom, skin)
+    hand.position.set(side * 0.14, -0.72, 0)
+    shoulder.add(hand)
+  }
+
+  // Legs - bare under a dress, otherwise in the bottom color
+  const legGeom = new THREE.CapsuleGeometry(0.16, 0.35, 2, seg(6, lod))
+  const shoeGeom = new THREE.BoxGeometry(0.28, 0.14, 0.4)
+  for (const side of [-1, 1]) {
+    const leg = new THREE.Mesh(legGeom, outfitStyle === 'dress' ? skin : bottom)
+    leg.position.set(side * 0.22, -2.1, 0)
+    const shoe = new THREE.Mesh(shoeGeom, shoes)
+    shoe.position.set(side * 0.22, -2.42, 0.06)
+    bodyGroup.add(leg, shoe)
+  }
+
+  switch (outfitStyle) {
+    case 'hoodie': {
+      // Hood bunched around the neck
+      const hoodGeom = new THREE.TorusGeometry(0.42, 0.14, seg(6, lod), seg(12, lod))
+      const hood = new THREE.Mesh(hoodGeom, top)
+      hood.position.set(0, -1.05, -0.08)
+      hood.rotation.x = Math.PI / 2
+      const pocketGeom = new THREE.BoxGeometry(0.5, 0.2, 0.05)
+      const pocket = new THREE.Mesh(pocketGeom, bottom)
+      pocket.position.set(0, -1.7, 0.52)
+      pocket.rotation.x = -0.12
+      bodyGroup.add(hood, pocket)
+      break
+    }
+
+    case 'dress': {
+      const skirtGeom = new THREE.CylinderGeometry(0.52, 0.8, 0.55, seg(10, lod))
+      const skirt = new THREE.Mesh(skirtGeom, bottom)
+      skirt.position.y = -1.95
+      bodyGroup.add(skirt)
+      break
+    }
+
+    case 'overalls': {
+      const waistGeom = new THREE.CylinderGeometry(0.54, 0.56, 0.3, seg(8, lod))
+      const waist = new THREE.Mesh(waistGeom, bottom)
+      waist.position.y = -1.78
+      const bibGeom = new THREE.BoxGeometry(0.5, 0.4, 0.06)
+      const bib = new THREE.Mesh(bibGeom, bottom)
+      bib.position.set(0, -1.48, 0.5)
+      bib.rotation.x = -0.12
+      bodyGroup.add(waist, bib)
+
+      const strapGeom = new THREE.BoxGeometry(0.08, 0.45, 0.04)
+      for (const side of [-1, 1]) {
+        const strap = new THREE.Mesh(strapGeom, bottom)
+        strap.position.set(side * 0.2, -1.2, 0.45)
+        strap.rotation.x = -0.35
+        bodyGroup.add(strap)
+      }
+      break
+    }
+  }
+
+  bodyGroup.add(createBackpack(config.backpackStyle, config.bottomColor, lod))
+  return bodyGroup
+}
+
+// Create a backpack - worn on the torso, so only shown with a body
+export function createBackpack(style: AvatarConfig['backpackStyle'], color: string, lod: AvatarLOD = 'high'): THREE.Group {
+  const backGroup = new THREE.Group()
+
+  switch (style) {
+    case 'backpack': {
+      const material = createMaterial(color)
+      const bagGeom = new THREE.BoxGeometry(0.7, 0.75, 0.32)
+      const bag = new THREE.Mesh(bagGeom, material)
+      bag.position.set(0, -1.45, -0.62)
+      const flapGeom = new THREE.BoxGeometry(0.72, 0.2, 0.34)
+      const flap = new THREE.Mesh(flapGeom, createMaterial(new THREE.Color(color).multiplyScalar(0.7)))
+      flap.position.set(0, -1.15, -0.62)
+      backGroup.add(bag, flap)
+      break
+    }
+
+    case 'jetpack': {
+      const metal = createMaterial(0xa0aec0)
+      const flame = createMaterial(0xff8800)
+      const tankGeom = new THREE.CapsuleGeometry(0.16, 0.5, 2, seg(8, lod))
+      const flameGeom = new THREE.ConeGeometry(0.1, 0.3, seg(6, lod))
+      for (const side of [-1, 1]) {
+        const tank = new THREE.Mesh(tankGeom, metal)
+        tank.position.set(side * 0.2, -1.45, -0.68)
+        const fire = new THREE.Mesh(flameGeom, flame)
+        fire.position.set(side * 0.2, -2.0, -0.68)
+        fire.rotation.x = Math.PI
+        backGroup.add(tank, fire)
+      }
+      break
+    }
+  }
+
+  return backGroup
+}
+
+// Build the complete avatar as a new group - just the head (with hat and
+// glasses) unless options.body is set
+export function createAvatar(config: AvatarConfig, options: AvatarBuildOptions = {}): THREE.Group {
+  const { scale = 1, lod = 'high', castShadow = false, body = false } = options
+  const avatar = new THREE.Group()
+
+  // Add parts in order (back to front)
+  avatar.add(createHead(config.headShape, config.headColor, lod))
+  avatar.add(createHair(config.hairStyle, config.hairColor, lod))
+  avatar.add(createNose(config.noseStyle, config.headColor, lod))
+
+  // Named so createFaceAnimator can find them
+  const eyes = createEyes(config.eyeStyle, config.eyeColor, lod)
+  eyes.name = 'eyes'
+  const eyebrows = createEyebrows(config.eyebrowStyle, config.hairColor)
+  eyebrows.name = 'eyebrows'
+  const mouth = createMouth(config.mouthStyle, lod)
+  mouth.name = 'mouth'
+  avatar.add(eyes, eyebrows, mouth)
+
+  if (config.hasBlush) {
+    avatar.add(createBlush())
+  }
+
+  avatar.add(createGlasses(config.glassesStyle, lod))
+  avatar.add(createHat(config.hatStyle, config.headShape, config.topColor, lod))
+
+  if (body) {
+    avatar.add(createBody(config, lod))
+  }
+
+  avatar.scale.setScalar(scale)
+
+  if (castShadow) {
+    avatar.traverse(obj => {
+      if (obj instanceof THREE.Mesh) obj.castShadow = true
+    })
+  }
+
+  return avatar
+}
+
+// Take an avatar out of the scene and free its GPU buffers - nothing is
+// shared between avatars, so every geometry and material goes
+export function disposeAvatar(avatar: THREE.Object3D) {
+  avatar.removeFromParent()
+  avatar.traverse(obj => {
+    if (obj instanceof THREE.Mesh) {
+      obj.geometry.dispose()
+      const materials = Array.isArray(obj.material) ? obj.material : [obj.material]
+      materials.forEach(material => material.dispose())
+    }
+  })
+}
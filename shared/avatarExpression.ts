@@ -0,0 +1,167 @@
+import * as THREE from 'three'
+
+// Facial expressions layered on top of the built avatar.
+// The saved AvatarConfig is always the neutral face - expressions only move
+// and scale the eye, eyebrow and mouth parts createAvatar builds, so every
+// eye/brow/mouth style can smile, frown, wink and blink.
+
+export type Expression = 'neutral' | 'happy' | 'sad' | 'surprised' | 'wink' | 'blink'
+
+// Expressions players can trigger (blink is automatic)
+export const EXPRESSION_PRESETS: Exclude<Expression, 'neutral' | 'blink'>[] = ['happy', 'sad', 'surprised', 'wink']
+
+// Relative to the neutral face: eye openness, brow offset/tilt and mouth
+// scale. A negative mouthHeight flips a smile into a frown.
+interface FacePose {
+  leftEye: number
+  rightEye: number
+  browLift: number
+  browTilt: number
+  mouthWidth: number
+  mouthHeight: number
+}
+
+const POSES: Record<Expression, FacePose> = {
+  neutral: { leftEye: 1, rightEye: 1, browLift: 0, browTilt: 0, mouthWidth: 1, mouthHeight: 1 },
+  happy: { leftEye: 0.6, rightEye: 0.6, browLift: 0.05, browTilt: 0, mouthWidth: 1.25, mouthHeight: 1.4 },
+  sad: { leftEye: 0.8, rightEye: 0.8, browLift: -0.02, browTilt: 0.3, mouthWidth: 0.9, mouthHeight: -0.8 },
+  surprised: { leftEye: 1.35, rightEye: 1.35, browLift: 0.12, browTilt: 0, mouthWidth: 0.6, mouthHeight: 2 },
+  wink: { leftEye: 0.08, rightEye: 1, browLift: 0, browTilt: 0, mouthWidth: 1.15, mouthHeight: 1.2 },
+  blink: { leftEye: 0.08, rightEye: 0.08, browLift: 0, browTilt: 0, mouthWidth: 1, mouthHeight: 1 }
+}
+
+// Seconds an expression is held before relaxing back to neutral
+const HOLD: Record<Expression, number> = {
+  neutral: 0,
+  happy: 2,
+  sad: 2,
+  surprised: 1.5,
+  wink: 0.4,
+  blink: 0.06
+}
+
+// Where the face parts pivot (head-local, matching createEyes/createMouth)
+const EYE_Y = 0.15
+const MOUTH_Y = -0.25
+
+export interface FaceAnimator {
+  readonly expression: Expression
+  // Blend to an expression, then back to neutral after hold seconds
+  play(expression: Expression, hold?: number): void
+  update(delta: number): void
+}
+
+export interface FaceAnimatorOptions {
+  // Blink every few seconds while the face is neutral
+  idleBlink?: boolean
+}
+
+interface BaseTransform {
+  position: THREE.Vector3
+  rotation: number
+  scale: THREE.Vector3
+}
+
+// Remember each part's built transform so poses are applied relative to it
+function captureBase(objects: THREE.Object3D[]): Map<THREE.Object3D, BaseTransform> {
+  const base = new Map<THREE.Object3D, BaseTransform>()
+  objects.forEach(obj => base.set(obj, {
+    position: obj.position.clone(),
+    rotation: obj.rotation.z,
+    scale: obj.scale.clone()
+  }))
+  return base
+}
+
+function lerpPose(a: FacePose, b: FacePose, t: number): FacePose {
+  const mix = (x: number, y: number) => x + (y - x) * t
+  return {
+    leftEye: mix(a.leftEye, b.leftEye),
+    rightEye: mix(a.rightEye, b.rightEye),
+    browLift: mix(a.browLift, b.browLift),
+    browTilt: mix(a.browTilt, b.browTilt),
+    mouthWidth: mix(a.mouthWidth, b.mouthWidth),
+    mouthHeight: mix(a.mouthHeight, b.mouthHeight)
+  }
+}
+
+// Drive the face of an avatar built by createAvatar. Rebuilding the avatar
+// needs a new animator.
+export function createFaceAnimator(avatar: THREE.Object3D, options: FaceAnimatorOptions = {}): FaceAnimator {
+  const eyes = avatar.getObjectByName('eyes')?.children ?? []
+  const brows = avatar.getObjectByName('eyebrows')?.children ?? []
+  const mouth = avatar.getObjectByName('mouth')
+  const base = captureBase([...eyes, ...brows, ...(mouth ? [mouth] : [])])
+
+  let expression: Expression = 'neutral'
+  let pose = POSES.neutral
+  let from = pose
+  let progress = 1
+  let duration = 0.15
+  let holdLeft = 0
+  let nextBlink = 2 + Math.random() * 4
+
+  function applyPose(p: FacePose) {
+    // Eyes close toward their own center line
+    eyes.forEach(eye => {
+      const b = base.get(eye)!
+      const open = b.position.x < 0 ? p.leftEye : p.rightEye
+      eye.position.y = EYE_Y + (b.position.y - EYE_Y) * open
+      eye.scale.y = b.scale.y * open
+    })
+
+    // Positive tilt raises the inner ends (worried), negative lowers them (angry)
+    brows.forEach(brow => {
+      const b = base.get(brow)!
+      brow.position.y = b.position.y + p.browLift
+      brow.rotation.z = b.rotation + Math.sign(b.position.x) * p.browTilt
+    })
+
+    // Scale the mouth around its own center rather than the head's
+    if (mouth) {
+      mouth.scale.set(p.mouthWidth, p.mouthHeight, 1)
+      mouth.position.y = MOUTH_Y * (1 - p.mouthHeight)
+    }
+  }
+
+  function play(next: Expression, hold = HOLD[next]) {
+    from = pose
+    expression = next
+    progress = 0
+    duration = next === 'blink' ? 0.06 : 0.15
+    holdLeft = hold
+  }
+
+  function update(delta: number) {
+    if (progress < 1) {
+      progress = Math.min(1, progress + delta / duration)
+      // Smoothstep so the face eases in and out of each pose
+      const t = progress * progress * (3 - 2 * progress)
+      pose = lerpPose(from, POSES[expression], t)
+      applyPose(pose)
+      return
+    }
+
+    if (expression !== 'neutral') {
+      holdLeft -= delta
+      if (holdLeft <= 0) play('neutral')
+      return
+    }
+
+    if (options.idleBlink) {
+      nextBlink -= delta
+      if (nextBlink <= 0) {
+        nextBlink = 2 + Math.random() * 4
+        play('blink')
+      }
+    }
+  }
+
+  return {
+    get expression() {
+      return expression
+    },
+    play,
+    update
+  }
+}
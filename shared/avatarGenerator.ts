@@ -0,0 +1,230 @@
+import { DEFAULT_AVATAR_CONFIG, type AvatarConfig } from './avatar'
+
+// Random-but-coherent avatars: the dice/remix button in bskatar and seeded
+// looks (same seed, same avatar). Colors are picked relative to each other so
+// hair, eyes and skin go together instead of being rolled independently.
+
+export type AvatarTrait = keyof AvatarConfig
+
+export interface GenerateAvatarOptions {
+  // Omit for a fresh random avatar
+  seed?: string | number
+  // Traits copied from base instead of re-rolled
+  locked?: AvatarTrait[]
+  base?: AvatarConfig
+}
+
+const HEAD_SHAPES: AvatarConfig['headShape'][] = ['round', 'oval', 'square']
+const HAIR_STYLES: AvatarConfig['hairStyle'][] = ['none', 'short', 'spiky', 'bob', 'ponytail']
+const EYE_STYLES: AvatarConfig['eyeStyle'][] = ['dots', 'wide', 'sleepy', 'sparkle']
+const EYEBROW_STYLES: AvatarConfig['eyebrowStyle'][] = ['none', 'normal', 'angry', 'worried', 'thick']
+const NOSE_STYLES: AvatarConfig['noseStyle'][] = ['none', 'small', 'round', 'pointed']
+const MOUTH_STYLES: AvatarConfig['mouthStyle'][] = ['smile', 'neutral', 'open', 'cat', 'surprised']
+const OUTFIT_STYLES: AvatarConfig['outfitStyle'][] = ['tshirt', 'hoodie', 'dress', 'overalls']
+const HAT_STYLES: AvatarConfig['hatStyle'][] = ['none', 'cap', 'beanie', 'tophat', 'crown']
+const GLASSES_STYLES: AvatarConfig['glassesStyle'][] = ['none', 'round', 'square', 'shades']
+const BACKPACK_STYLES: AvatarConfig['backpackStyle'][] = ['none', 'backpack', 'jetpack']
+
+const NATURAL_SKIN = ['#ffccaa', '#ffe4c4', '#f5d0c5', '#deb887', '#d2a679', '#a67c52', '#8d5524']
+const FANTASY_SKIN = ['#a8e6cf', '#ffd3b6', '#c5b4e3']
+const NATURAL_HAIR = ['#2c1810', '#4a3728', '#8b7355', '#d4a574', '#e8c872', '#1a1a2e']
+const NATURAL_EYES = ['#333333', '#4a4a4a', '#2d5a27', '#4a90d9', '#8b4513']
+// Denim, charcoal, grey, brown, khaki
+const NEUTRAL_BOTTOMS = ['#2b4c7e', '#2d3748', '#4a4a4a', '#5c4033', '#c2b280']
+
+// Style pairs that read as a different expression than either part intends
+const CLASHES: [Partial<AvatarConfig>, Partial<AvatarConfig>][] = [
+  [{ eyeStyle: 'sleepy' }, { mouthStyle: 'surprised' }],
+  [{ eyeStyle: 'sleepy' }, { mouthStyle: 'open' }],
+  [{ eyebrowStyle: 'angry' }, { eyeStyle: 'sparkle' }],
+  [{ eyebrowStyle: 'worried' }, { mouthStyle: 'cat' }]
+]
+
+type Random = () => number
+
+// FNV-1a - spreads similar strings (e.g. DIDs) across the whole seed space
+function hashSeed(seed: string | number): number {
+  const str = String(seed)
+  let hash = 0x811c9dc5
+  for (let i = 0; i < str.length; i++) {
+    hash ^= str.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// mulberry32 - tiny, fast, good enough for picking avatar parts
+function createRandom(seed: number): Random {
+  let state = seed
+  return () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+function pick<T>(random: Random, options: T[]): T {
+  return options[Math.floor(random() * options.length)]
+}
+
+function between(random: Random, min: number, max: number): number {
+  return min + random() * (max - min)
+}
+
+// HSL with h in degrees, s/l in 0-1
+function hexToHsl(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16)
+  const r = ((value >> 16) & 255) / 255
+  const g = ((value >> 8) & 255) / 255
+  const b = (value & 255) / 255
+  const max = Math.max(r, g, b)
+  const min = Math.min(r, g, b)
+  const l = (max + min) / 2
+  const d = max - min
+  if (d === 0) return [0, 0, l]
+
+  const s = d / (1 - Math.abs(2 * l - 1))
+  let h
+  if (max === r) h = ((g - b) / d) % 6
+  else if (max === g) h = (b - r) / d + 2
+  else h = (r - g) / d + 4
+  return [(h * 60 + 360) % 360, s, l]
+}
+
+function hslToHex(h: number, s: number, l: number): string {
+  const hue = ((h % 360) + 360) % 360
+  const c = (1 - Math.abs(2 * l - 1)) * s
+  const x = c * (1 - Math.abs(((hue / 60) % 2) - 1))
+  const m = l - c / 2
+  const [r, g, b] =
+    hue < 60 ? [c, x, 0] :
+    hue < 120 ? [x, c, 0] :
+    hue < 180 ? [0, c, x] :
+    hue < 240 ? [0, x, c] :
+    hue < 300 ? [x, 0, c] : [c, 0, x]
+  return '#' + [r, g, b].map(channel => Math.round((channel + m) * 255).toString(16).padStart(2, '0')).join('')
+}
+
+function generateSkin(random: Random): string {
+  return random() < 0.85 ? pick(random, NATURAL_SKIN) : pick(random, FANTASY_SKIN)
+}
+
+// Natural shades most of the time; dyed colors sit opposite or in a triad
+// with fantasy skin so they don't clash with it
+function generateHair(random: Random, skin: string): string {
+  const [skinHue, , skinLight] = hexToHsl(skin)
+  const fantasySkin = FANTASY_SKIN.includes(skin)
+
+  let hair: string
+  if (!fantasySkin && random() < 0.65) {
+    hair = pick(random, NATURAL_HAIR)
+  } else {
+    const hue = fantasySkin ? skinHue + pick(random, [120, 150, 180, 210, 240]) : random() * 360
+    hair = hslToHex(hue, between(random, 0.5, 0.75), between(random, 0.4, 0.6))
+  }
+
+  // Keep hair readable against the face
+  const [h, s, l] = hexToHsl(hair)
+  if (Math.abs(l - skinLight) < 0.2) {
+    hair = hslToHex(h, s, Math.max(0.1, skinLight - 0.3))
+  }
+  return hair
+}
+
+// Eyes follow the hair: natural eyes with natural hair, an analogous darker
+// shade with dyed hair
+function generateEyes(random: Random, hair: string): string {
+  const [hairHue, hairSat] = hexToHsl(hair)
+  const naturalHair = NATURAL_HAIR.includes(hair) || hairSat < 0.35
+  if (naturalHair || random() < 0.3) {
+    return pick(random, NATURAL_EYES)
+  }
+  return hslToHex(hairHue + between(random, -30, 30), between(random, 0.45, 0.7), between(random, 0.25, 0.4))
+}
+
+// Tops complement dyed hair, or take any hue with natural hair
+function generateTop(random: Random, hair: string): string {
+  const [hairHue, hairSat] = hexToHsl(hair)
+  const hue = hairSat >= 0.35 && !NATURAL_HAIR.includes(hair) ? hairHue + 180 + between(random, -30, 30) : random() * 360
+  return hslToHex(hue, between(random, 0.45, 0.7), between(random, 0.45, 0.6))
+}
+
+// Mostly neutral bottoms; otherwise a darker shade near the top's hue
+function generateBottom(random: Random, top: string): string {
+  if (random() < 0.6) return pick(random, NEUTRAL_BOTTOMS)
+  const [topHue] = hexToHsl(top)
+  return hslToHex(topHue + between(random, -40, 40), between(random, 0.3, 0.5), between(random, 0.2, 0.35))
+}
+
+// Accessories are rare - most rolls leave the slot empty
+function rollAccessory<T>(random: Random, styles: T[], chance: number): T {
+  return random() < chance ? pick(random, styles.slice(1)) : styles[0]
+}
+
+function matches(config: AvatarConfig, part: Partial<AvatarConfig>): boolean {
+  return (Object.keys(part) as AvatarTrait[]).every(key => config[key] === part[key])
+}
+
+export function generateAvatar(options: GenerateAvatarOptions = {}): AvatarConfig {
+  const { seed = Math.random() * 2 ** 32, locked = [], base = DEFAULT_AVATAR_CONFIG } = options
+  const seedHash = hashSeed(seed)
+  const isLocked = (trait: AvatarTrait) => locked.includes(trait)
+
+  // Each trait draws from its own stream, so however many values one takes
+  // (that depends on the colors it's derived from) the rest roll the same
+  const stream = (name: string) => createRandom(hashSeed(`${seedHash}:${name}`))
+  const roll = <K extends AvatarTrait>(trait: K, generate: (random: Random) => AvatarConfig[K]): AvatarConfig[K] =>
+    isLocked(trait) ? base[trait] : generate(stream(trait))
+
+  const config = { ...base }
+  config.headShape = roll('headShape', random => pick(random, HEAD_SHAPES))
+  config.headColor = roll('headColor', generateSkin)
+  config.hairStyle = roll('hairStyle', random => random() < 0.1 ? 'none' : pick(random, HAIR_STYLES.slice(1)))
+  config.hairColor = roll('hairColor', random => generateHair(random, config.headColor))
+  config.eyeStyle = roll('eyeStyle', random => pick(random, EYE_STYLES))
+  config.eyeColor = roll('eyeColor', random => generateEyes(random, config.hairColor))
+  config.eyebrowStyle = roll('eyebrowStyle', random => random() < 0.1 ? 'none' : pick(random, EYEBROW_STYLES.slice(1)))
+  config.noseStyle = roll('noseStyle', random => pick(random, NOSE_STYLES))
+  config.mouthStyle = roll('mouthStyle', random => pick(random, MOUTH_STYLES))
+  config.hasBlush = roll('hasBlush', random => random() < 0.6)
+  config.outfitStyle = roll('outfitStyle', random => pick(random, OUTFIT_STYLES))
+  config.topColor = roll('topColor', random => generateTop(random, config.hairColor))
+  config.bottomColor = roll('bottomColor', random => generateBottom(random, config.topColor))
+  config.hatStyle = roll('hatStyle', random => rollAccessory(random, HAT_STYLES, 0.3))
+  config.glassesStyle = roll('glassesStyle', random => rollAccessory(random, GLASSES_STYLES, 0.25))
+  config.backpackStyle = roll('backpackStyle', random => rollAccessory(random, BACKPACK_STYLES, 0.2))
+
+  // Re-roll whichever side of a clash is unlocked; locked clashes are the user's call
+  const random = stream('clashes')
+  for (const [a, b] of CLASHES) {
+    if (!matches(config, a) || !matches(config, b)) continue
+    const trait = (Object.keys(b) as AvatarTrait[]).find(key => !isLocked(key))
+      ?? (Object.keys(a) as AvatarTrait[]).find(key => !isLocked(key))
+    if (trait === 'mouthStyle') config.mouthStyle = pick(random, ['smile', 'neutral'])
+    else if (trait === 'eyeStyle') config.eyeStyle = pick(random, ['dots', 'wide'])
+    else if (trait === 'eyebrowStyle') config.eyebrowStyle = 'normal'
+  }
+
+  return config
+}
+
+// Starter look for someone who never made a bskatar, so people without one
+// still look distinct. Stable per account: changing generateAvatar changes
+// these for everyone, so bump the prefix only on purpose.
+const DID_SEED_PREFIX = 'bskatar-default-v1:'
+
+export function defaultAvatarForDid(did: string): AvatarConfig {
+  return generateAvatar({ seed: DID_SEED_PREFIX + did })
+}
+
+// Short random seed users can read, share and type back in
+export function randomAvatarSeed(): string {
+  return Math.floor(Math.random() * 36 ** 6).toString(36).padStart(6, '0')
+}
+
+// The same seeded generator, for anything else that should be stable per
+// seed (e.g. default world layouts)
+export function seededRandom(seed: string | number): () => number {
+  return createRandom(hashSeed(seed))
+}
@@ -0,0 +1,58 @@
+// Forward migrations for xyz.bskatar.avatar records.
+// Each record carries the schema version it was written with. On load we run
+// every migration from that version up to AVATAR_SCHEMA_VERSION, so old
+// records keep working as AvatarConfig evolves.
+//
+// To change the format: bump AVATAR_SCHEMA_VERSION, append a migration that
+// upgrades the previous version, and update the lexicon.
+
+export const AVATAR_SCHEMA_VERSION = 2
+
+type RawRecord = Record<string, unknown>
+
+// MIGRATIONS[n] upgrades a version n record to version n + 1
+const MIGRATIONS: ((record: RawRecord) => RawRecord)[] = [
+  // 0 -> 1: records written before versioning, fields are unchanged
+  record => ({ ...record, version: 1 }),
+  // 1 -> 2: body and accessories, optional in the lexicon. Values are
+  // spelled out rather than taken from DEFAULT_AVATAR_CONFIG so old records
+  // always upgrade the same way.
+  record => ({
+    outfitStyle: 'tshirt',
+    topColor: '#4299e1',
+    bottomColor: '#2d3748',
+    hatStyle: 'none',
+    glassesStyle: 'none',
+    backpackStyle: 'none',
+    ...record,
+    version: 2
+  })
+]
+
+export interface MigrationResult {
+  record: RawRecord
+  fromVersion: number
+  // Written by a newer build than this one - unknown values degrade to defaults
+  isNewer: boolean
+}
+
+export function getRecordVersion(record: RawRecord): number {
+  const version = record.version
+  return typeof version === 'number' && Number.isInteger(version) && version >= 0 ? version : 0
+}
+
+export function migrateAvatarRecord(record: RawRecord): MigrationResult {
+  const fromVersion = getRecordVersion(record)
+
+  if (fromVersion > AVATAR_SCHEMA_VERSION) {
+    // Can't migrate backwards - validation repairs what we don't understand
+    return { record, fromVersion, isNewer: true }
+  }
+
+  let migrated = record
+  for (let version = fromVersion; version < AVATAR_SCHEMA_VERSION; version++) {
+    migrated = MIGRATIONS[version](migrated)
+  }
+
+  return { record: migrated, fromVersion, isNewer: false }
+}
@@ -0,0 +1,168 @@
+import avatarLexicon from './lexicons/xyz/bskatar/avatar.json'
+import presetLexicon from './lexicons/xyz/bskatar/preset.json'
+import { DEFAULT_AVATAR_CONFIG, type AvatarConfig } from './avatar'
+import { AVATAR_SCHEMA_VERSION, migrateAvatarRecord } from './avatarMigrations'
+import { compileRecordValidator, formatValidationIssues, truncateString, type ValidationIssue } from './lexiconValidator'
+
+// xyz.bskatar.avatar record storage + validation.
+// The validator is compiled from the Lexicon JSON (see lexiconValidator.ts).
+
+export const AVATAR_COLLECTION = 'xyz.bskatar.avatar'
+export const AVATAR_RKEY = 'self'
+
+// Sibling collection with one TID-keyed record per save
+export const AVATAR_HISTORY_COLLECTION = 'xyz.bskatar.avatarHistory'
+
+// Named looks, TID-keyed; the active one is referenced by rkey from 'self'
+export const AVATAR_PRESET_COLLECTION = 'xyz.bskatar.preset'
+// Limits straight from the lexicon - graphemes, and UTF-8 bytes as a backstop
+const PRESET_NAME_LIMITS = presetLexicon.defs.main.record.properties.name
+
+export type AvatarRecord = AvatarConfig & {
+  $type: typeof AVATAR_COLLECTION
+  version: number
+  // BlobRef from uploadBlob
+  thumbnail?: unknown
+  activePreset?: string
+  createdAt: string
+  [key: string]: unknown
+}
+
+export interface AvatarHistoryRecord {
+  $type: typeof AVATAR_HISTORY_COLLECTION
+  avatar: AvatarRecord
+  createdAt: string
+  [key: string]: unknown
+}
+
+export interface AvatarPresetRecord {
+  $type: typeof AVATAR_PRESET_COLLECTION
+  name: string
+  avatar: AvatarRecord
+  createdAt: string
+  [key: string]: unknown
+}
+
+export interface AvatarPreset {
+  rkey: string
+  name: string
+  config: AvatarConfig
+}
+
+export type AvatarValidationIssue = ValidationIssue
+
+export interface AvatarValidationResult {
+  config: AvatarConfig
+  issues: AvatarValidationIssue[]
+  // Schema version the record was written with
+  fromVersion: number
+  // Written by a newer build - issues are most likely values we don't know yet
+  isNewer: boolean
+}
+
+// Thrown when a config we're about to save doesn't satisfy the lexicon
+export class AvatarValidationError extends Error {
+  issues: AvatarValidationIssue[]
+
+  constructor(issues: AvatarValidationIssue[]) {
+    super(`Invalid avatar: ${formatValidationIssues(issues)}`)
+    this.name = 'AvatarValidationError'
+    this.issues = issues
+  }
+}
+
+const checkAvatarRecord = compileRecordValidator(avatarLexicon)
+
+// The apps log repaired avatars with this
+export { formatValidationIssues }
+
+// Expand #abc shorthand and lowercase, or null if it isn't a hex color at all
+export function normalizeHexColor(value: unknown): string | null {
+  if (typeof value !== 'string') return null
+  const hex = value.trim().toLowerCase()
+  if (/^#[0-9a-f]{6}$/.test(hex)) return hex
+  const short = hex.match(/^#([0-9a-f])([0-9a-f])([0-9a-f])$/)
+  if (short) return `#${short[1]}${short[1]}${short[2]}${short[2]}${short[3]}${short[3]}`
+  return null
+}
+
+// Typed write of a field the validator has already checked
+function assignField<K extends keyof AvatarConfig>(config: AvatarConfig, key: K, value: unknown) {
+  config[key] = value as AvatarConfig[K]
+}
+
+// Validate a record read from a repo, migrating it to the current schema
+// version first and repairing invalid fields.
+// Fixable colors are normalized, everything else falls back to the default.
+export function validateAvatarRecord(value: unknown): AvatarValidationResult {
+  const raw = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>
+  const { record, fromVersion, isNewer } = migrateAvatarRecord(raw)
+  const issues = checkAvatarRecord(record)
+  const config: AvatarConfig = { ...DEFAULT_AVATAR_CONFIG }
+  const invalid = new Set(issues.map(issue => issue.field))
+
+  for (const key of Object.keys(DEFAULT_AVATAR_CONFIG) as (keyof AvatarConfig)[]) {
+    // Left out (the version 2 fields are optional) - keep the default
+    if (record[key] === undefined) continue
+    if (!invalid.has(key)) {
+      assignField(config, key, record[key])
+    } else if (key.endsWith('Color')) {
+      const repaired = normalizeHexColor(record[key])
+      if (repaired) assignField(config, key, repaired)
+    }
+  }
+
+  return { config, issues, fromVersion, isNewer }
+}
+
+// Build the record we write to the repo. Throws if the config doesn't
+// satisfy the lexicon so nothing invalid is ever saved.
+export function createAvatarRecord(config: AvatarConfig, activePreset: string | null = null): AvatarRecord {
+  const record: AvatarRecord = {
+    $type: AVATAR_COLLECTION,
+    version: AVATAR_SCHEMA_VERSION,
+    ...config,
+    createdAt: new Date().toISOString()
+  }
+  if (activePreset) record.activePreset = activePreset
+  const issues = checkAvatarRecord(record)
+  if (issues.length > 0) {
+    throw new AvatarValidationError(issues)
+  }
+  return record
+}
+
+// Snapshot of a saved avatar record for the history collection
+export function createAvatarHistoryRecord(avatar: AvatarRecord): AvatarHistoryRecord {
+  return {
+    $type: AVATAR_HISTORY_COLLECTION,
+    avatar,
+    createdAt: avatar.createdAt
+  }
+}
+
+// Record key of the active preset a stored avatar points at, if any
+export function getActivePresetKey(value: unknown): string | null {
+  const preset = (value as { activePreset?: unknown } | null)?.activePreset
+  return typeof preset === 'string' && preset.length > 0 ? preset : null
+}
+
+export function createAvatarPresetRecord(name: string, config: AvatarConfig): AvatarPresetRecord {
+  const avatar = createAvatarRecord(config)
+  return {
+    $type: AVATAR_PRESET_COLLECTION,
+    name: truncateString(name, PRESET_NAME_LIMITS),
+    avatar,
+    createdAt: avatar.createdAt
+  }
+}
+
+// Read a preset record from a repo listing
+export function readAvatarPreset(rkey: string, value: unknown): AvatarPreset {
+  const record = (value ?? {}) as { name?: unknown; avatar?: unknown }
+  return {
+    rkey,
+    name: typeof record.name === 'string' && record.name ? record.name : 'Untitled',
+    config: validateAvatarRecord(record.avatar).config
+  }
+}
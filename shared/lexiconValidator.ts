@@ -0,0 +1,202 @@
+// Validators compiled from our Lexicon JSON, so the published schemas and
+// what the apps accept can't drift apart. Covers the subset of the Lexicon
+// language our records use.
+
+export interface ValidationIssue {
+  // Path into the record, e.g. 'headColor' or 'cyber.objects[3].x'
+  field: string
+  message: string
+  value: unknown
+}
+
+interface LexProperty {
+  type: string
+  enum?: string[]
+  ref?: string
+  format?: string
+  minLength?: number
+  maxLength?: number
+  minGraphemes?: number
+  maxGraphemes?: number
+  minimum?: number
+  maximum?: number
+  accept?: string[]
+  maxSize?: number
+  // object
+  required?: string[]
+  properties?: Record<string, LexProperty>
+  // array
+  items?: LexProperty
+}
+
+interface LexiconDoc {
+  defs: Record<string, unknown>
+}
+
+// String lengths the way Lexicon counts them: maxLength is UTF-8 bytes,
+// maxGraphemes is characters as people see them
+const encoder = new TextEncoder()
+const segmenter = new Intl.Segmenter()
+
+export function utf8Length(value: string): number {
+  return encoder.encode(value).length
+}
+
+export function graphemeLength(value: string): number {
+  return [...segmenter.segment(value)].length
+}
+
+// Longest start of value within the limits, cut between graphemes so an
+// emoji or accented letter is never split
+export function truncateString(value: string, limits: { maxLength?: number; maxGraphemes?: number }): string {
+  let result = ''
+  let graphemes = 0
+  for (const { segment } of segmenter.segment(value)) {
+    if (limits.maxGraphemes !== undefined && graphemes >= limits.maxGraphemes) break
+    if (limits.maxLength !== undefined && utf8Length(result + segment) > limits.maxLength) break
+    result += segment
+    graphemes++
+  }
+  return result
+}
+
+// Checks Lexicon can't express (it has no regex) keyed by def ref
+const REF_CHECKS: Record<string, (value: string) => boolean> = {
+  '#color': value => /^#[0-9a-fA-F]{6}$/.test(value)
+}
+
+// Adds an issue for the value at field (and anything under it)
+type Validator = (value: unknown, field: string, issues: ValidationIssue[]) => void
+
+// Returns an error message, or null when the value is valid
+type ValueCheck = (value: unknown) => string | null
+
+function childField(field: string, name: string): string {
+  return field ? `${field}.${name}` : name
+}
+
+function valueValidator(check: ValueCheck): Validator {
+  return (value, field, issues) => {
+    const error = check(value)
+    if (error) issues.push({ field, message: error, value })
+  }
+}
+
+function compileProperty(prop: LexProperty, defs: Record<string, LexProperty>): Validator {
+  if (prop.type === 'ref' && prop.ref) {
+    const name = prop.ref.replace('#', '')
+    const target = defs[name]
+    if (!target) throw new Error(`Unknown lexicon ref ${prop.ref}`)
+    const base = compileProperty(target, defs)
+    const extra = REF_CHECKS[prop.ref]
+    if (!extra) return base
+    return (value, field, issues) => {
+      const before = issues.length
+      base(value, field, issues)
+      if (issues.length === before && !extra(value as string)) {
+        issues.push({ field, message: `is not a valid ${name}`, value })
+      }
+    }
+  }
+
+  switch (prop.type) {
+    case 'string':
+      return valueValidator(value => {
+        if (typeof value !== 'string') return 'must be a string'
+        if (prop.enum && !prop.enum.includes(value)) return `must be one of ${prop.enum.join(', ')}`
+        if (prop.minLength !== undefined && utf8Length(value) < prop.minLength) return `must be at least ${prop.minLength} bytes`
+        if (prop.maxLength !== undefined && utf8Length(value) > prop.maxLength) return `must be at most ${prop.maxLength} bytes`
+        if (prop.minGraphemes !== undefined && graphemeLength(value) < prop.minGraphemes) return `must be at least ${prop.minGraphemes} characters`
+        if (prop.maxGraphemes !== undefined && graphemeLength(value) > prop.maxGraphemes) return `must be at most ${prop.maxGraphemes} characters`
+        if (prop.format === 'datetime' && isNaN(Date.parse(value))) return 'must be a datetime'
+        return null
+      })
+    case 'boolean':
+      return valueValidator(value => typeof value === 'boolean' ? null : 'must be a boolean')
+    case 'blob':
+      return valueValidator(value => {
+        const blob = value as { mimeType?: unknown; size?: unknown } | null
+        if (!blob || typeof blob !== 'object' || typeof blob.mimeType !== 'string') return 'must be a blob'
+        if (prop.accept && !prop.accept.includes(blob.mimeType)) return `must be one of ${prop.accept.join(', ')}`
+        if (prop.maxSize !== undefined && typeof blob.size === 'number' && blob.size > prop.maxSize) return `must be at most ${prop.maxSize} bytes`
+        return null
+      })
+    case 'integer':
+      return valueValidator(value => {
+        if (typeof value !== 'number' || !Number.isInteger(value)) return 'must be an integer'
+        if (prop.minimum !== undefined && value < prop.minimum) return `must be at least ${prop.minimum}`
+        if (prop.maximum !== undefined && value > prop.maximum) return `must be at most ${prop.maximum}`
+        return null
+      })
+    case 'object': {
+      const fields = Object.entries(prop.properties ?? {}).map(([name, child]) => ({
+        name,
+        required: prop.required?.includes(name) ?? false,
+        validate: compileProperty(child, defs)
+      }))
+      return (value, field, issues) => {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+          issues.push({ field, message: 'must be an object', value })
+          return
+        }
+        const object = value as Record<string, unknown>
+        for (const { name, required, validate } of fields) {
+          const fieldValue = object[name]
+          if (fieldValue === undefined) {
+            if (required) issues.push({ field: childField(field, name), message: 'is missing', value: fieldValue })
+            continue
+          }
+          validate(fieldValue, childField(field, name), issues)
+        }
+      }
+    }
+    case 'array': {
+      if (!prop.items) throw new Error('Lexicon array without items')
+      const validateItem = compileProperty(prop.items, defs)
+      return (value, field, issues) => {
+        if (!Array.isArray(value)) {
+          issues.push({ field, message: 'must be an array', value })
+          return
+        }
+        if (prop.minLength !== undefined && value.length < prop.minLength) {
+          issues.push({ field, message: `must have at least ${prop.minLength} items`, value: value.length })
+        }
+        if (prop.maxLength !== undefined && value.length > prop.maxLength) {
+          issues.push({ field, message: `must have at most ${prop.maxLength} items`, value: value.length })
+        }
+        value.forEach((item, i) => validateItem(item, `${field}[${i}]`, issues))
+      }
+    }
+    default:
+      throw new Error(`Unsupported lexicon type ${prop.type}`)
+  }
+}
+
+// Validator for one def of a lexicon, e.g. 'object' for '#object'
+export function compileDefValidator(lexicon: LexiconDoc, name: string) {
+  const defs = lexicon.defs as Record<string, LexProperty>
+  const def = defs[name]
+  if (!def) throw new Error(`Unknown lexicon def ${name}`)
+  const validate = compileProperty(def, defs)
+  return (value: unknown): ValidationIssue[] => {
+    const issues: ValidationIssue[] = []
+    validate(value, '', issues)
+    return issues
+  }
+}
+
+// Validator for a record lexicon's main def
+export function compileRecordValidator(lexicon: LexiconDoc) {
+  const defs = lexicon.defs as Record<string, LexProperty>
+  const main = lexicon.defs.main as { record: LexProperty }
+  const validate = compileProperty(main.record, defs)
+  return (value: Record<string, unknown>): ValidationIssue[] => {
+    const issues: ValidationIssue[] = []
+    validate(value, '', issues)
+    return issues
+  }
+}
+
+export function formatValidationIssues(issues: ValidationIssue[]): string {
+  return issues.map(issue => `${issue.field} ${issue.message} (got ${JSON.stringify(issue.value)})`).join('; ')
+}
@@ -0,0 +1,59 @@
+// Wire protocol between bskyplace clients and the presence relay.
+// JSON messages over a WebSocket. Shared by the client and the relay, so it
+// must not import anything that needs three or the DOM.
+
+export type PresenceWorld = 'cyber' | 'fantasy'
+
+export const PRESENCE_WORLDS: PresenceWorld[] = ['cyber', 'fantasy']
+
+export type PresenceEmote = 'wave' | 'dance' | 'heart' | 'laugh'
+
+// The relay only forwards these
+export const PRESENCE_EMOTES: PresenceEmote[] = ['wave', 'dance', 'heart', 'laugh']
+
+export interface PresenceState {
+  x: number
+  y: number
+  z: number
+  // Facing, radians around Y
+  rotation: number
+}
+
+export interface PresencePeer {
+  // Connection id assigned by the relay
+  id: string
+  did: string
+  handle: string
+  // An xyz.bskatar.avatar-shaped value - untrusted, clients validate it
+  avatar: unknown
+  state: PresenceState
+}
+
+// Method the relay's service-auth tokens are scoped to (the JWT's lxm claim)
+export const PRESENCE_LXM = 'xyz.bskyplace.presence.connect'
+
+// Client -> relay. The first message must be auth - the relay takes the
+// DID and handle from the verified token, never from the client.
+export type ClientMessage =
+  | { type: 'auth'; token: string }
+  | { type: 'join'; world: PresenceWorld; avatar: unknown; state: PresenceState }
+  | { type: 'state'; state: PresenceState }
+  | { type: 'emote'; emote: PresenceEmote }
+  | { type: 'avatar'; avatar: unknown }
+
+export type PresenceErrorCode = 'unauthorized' | 'room-full' | 'rate-limited' | 'bad-message'
+
+// Relay -> client
+export type ServerMessage =
+  | { type: 'authed'; did: string; handle: string }
+  | { type: 'welcome'; id: string; world: PresenceWorld; peers: PresencePeer[] }
+  | { type: 'peer-joined'; peer: PresencePeer }
+  | { type: 'peer-left'; id: string }
+  | { type: 'peer-state'; id: string; state: PresenceState }
+  // A string, not PresenceEmote - clients still check it against what they know
+  | { type: 'peer-emote'; id: string; emote: string }
+  | { type: 'peer-avatar'; id: string; avatar: unknown }
+  | { type: 'error'; code: PresenceErrorCode; message: string }
+
+// Clients send their state at most this often
+export const PRESENCE_SEND_INTERVAL_MS = 100